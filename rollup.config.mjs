@@ -18,10 +18,16 @@ function configurePlugins({ declaration = false }) {
   ];
 }
 
-function configureTarget({ output, declaration = false }) {
+function configureTarget({
+  input = 'src/index.ts',
+  output,
+  external,
+  declaration = false,
+}) {
   return {
-    input: 'src/index.ts',
+    input,
     output,
+    external,
     plugins: configurePlugins({ declaration }),
   };
 }
@@ -44,4 +50,15 @@ export default [
       file: 'dist/index.es.js',
     },
   }),
+  // Command-line tool
+  configureTarget({
+    input: 'src/cli.ts',
+    output: {
+      format: 'cjs',
+      sourcemap: true,
+      file: 'dist/cli.js',
+      banner: '#!/usr/bin/env node',
+    },
+    external: ['fs'],
+  }),
 ];
@@ -0,0 +1,281 @@
+import { getPluralCategory, testRelation } from './evaluate';
+import { readExactSelector } from './icu';
+import { parseDecimal } from './operands';
+import { findRepresentatives } from './solver';
+import {
+  PluralRuleSet,
+  PluralCategory,
+  Condition,
+  Relation,
+  Value,
+} from './types';
+
+/**
+ * A problem with the plural branches of a translated message.
+ */
+export interface BranchFinding {
+  /**
+   * A code that identifies the kind of problem.
+   */
+  readonly code: BranchCode;
+  /**
+   * A human-readable description of the problem.
+   */
+  readonly message: string;
+  /**
+   * The plural category that the problem is about.
+   */
+  readonly category: PluralCategory;
+  /**
+   * The branch that the problem is about, exactly as it was passed to
+   * `checkPluralBranches()`, or null for a missing category.
+   */
+  readonly branch: string | number | null;
+  /**
+   * For `shadowed-branch`, the exact-value branches that match the numbers in
+   * the category, in order. Otherwise empty.
+   */
+  readonly exactBranches: readonly string[];
+}
+
+/**
+ * Identifies a kind of problem with plural branches:
+ *
+ * * `missing-category`: Some numbers are in a category that has no branch,
+ *   and are not matched by an exact-value branch either. This is typical of a
+ *   translation that copies the branches of another language.
+ * * `unreachable-branch`: No number is ever in the category of a branch,
+ *   either because the rule set doesn't define the category, or because
+ *   earlier rules match every number that the category's rule matches.
+ * * `shadowed-branch`: Every number in the category of a branch is matched by
+ *   an exact-value branch, such as `=1`, so the branch is never selected.
+ */
+export type BranchCode =
+  | 'missing-category'
+  | 'unreachable-branch'
+  | 'shadowed-branch';
+
+/**
+ * Options that control `checkPluralBranches()`.
+ */
+export interface BranchCheckOptions {
+  /**
+   * The offset of the plural argument, as in `{n, plural, offset:1 ...}`.
+   * Keyword branches are matched against the value minus the offset, while
+   * exact-value branches are matched against the value itself, as by
+   * `selectPluralBranch()`. Must be a non-negative integer. Defaults to 0.
+   */
+  readonly offset?: number;
+}
+
+/**
+ * Checks that the plural branches of a translated message match the plural
+ * categories of its language. Only the categories that some number actually
+ * gets are required, and a category that is fully covered by exact-value
+ * branches doesn't need a branch of its own.
+ *
+ * The branches can be given in any of these forms:
+ *
+ * * The selectors of an ICU MessageFormat `plural` or `selectordinal`
+ *   argument, such as `['=0', 'one', 'other']`.
+ * * The indexes of gettext's `msgstr[N]` forms, such as `[0, 1, 2]`. Form N
+ *   stands for the Nth category of the rule set, in rule set order, with
+ *   'other' last. Catalogs whose `Plural-Forms` header orders the forms
+ *   differently should pass category names instead.
+ * * A plain list of category names, such as `['one', 'other']`.
+ *
+ * Exact-value branches only cover non-negative numbers, as is usual for
+ * counts. Rule sets apply to negative numbers as well, but an exact value
+ * such as `=1` doesn't match -1. Exact values with a fraction, such as
+ * `=1.5`, are ignored.
+ * @param rules The rule set of the message's language.
+ * @param branches The branches of the message.
+ * @param options Options that control the check.
+ * @return The problems that were found: those about the categories of the
+ *         rule set first, in rule set order, followed by branches for
+ *         categories that the rule set doesn't define, in the order given.
+ * @throws {RangeError} A selector is not valid, a gettext form index is out
+ *         of range, the offset is not a non-negative integer, or the rules are
+ *         too complex to analyze exactly.
+ */
+export function checkPluralBranches(
+  rules: PluralRuleSet,
+  branches: Iterable<string | number>,
+  options: BranchCheckOptions = {}
+): BranchFinding[] {
+  const { offset = 0 } = options;
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new RangeError(`Invalid plural offset: ${offset}`);
+  }
+
+  const categories: PluralCategory[] = [...rules.rules.keys(), 'other'];
+
+  // The first branch for each category, and the value of each exact branch.
+  const keywordBranches = new Map<PluralCategory, string | number>();
+  const exactBranches: [string, number][] = [];
+  for (const branch of branches) {
+    let category: PluralCategory;
+    if (typeof branch === 'number') {
+      if (
+        !Number.isInteger(branch) ||
+        branch < 0 ||
+        branch >= categories.length
+      ) {
+        throw new RangeError(`Plural form index out of range: ${branch}`);
+      }
+      category = categories[branch];
+    } else {
+      const exact = readExactSelector(branch);
+      if (exact !== null) {
+        const value = getIntegerValue(exact);
+        if (value !== null) {
+          exactBranches.push([branch, value]);
+        }
+        continue;
+      }
+      category = branch;
+    }
+    if (!keywordBranches.has(category)) {
+      keywordBranches.set(category, branch);
+    }
+  }
+
+  const { reachable, uncovered } = analyzeCategories(
+    rules,
+    getCoveredValues(exactBranches.map(([, value]) => value), offset)
+  );
+
+  const findings: BranchFinding[] = [];
+  for (const category of categories) {
+    const branch = keywordBranches.get(category);
+    if (!reachable.has(category)) {
+      if (branch !== undefined) {
+        findings.push({
+          code: 'unreachable-branch',
+          message: `No number is in category '${category}'`,
+          category,
+          branch,
+          exactBranches: [],
+        });
+      }
+    } else if (uncovered.has(category)) {
+      if (branch === undefined) {
+        findings.push({
+          code: 'missing-category',
+          message: `Missing a branch for category '${category}'`,
+          category,
+          branch: null,
+          exactBranches: [],
+        });
+      }
+    } else if (branch !== undefined) {
+      const covering = exactBranches
+        .filter(([, value]) =>
+          getPluralCategory(rules, value - offset) === category
+        )
+        .map(([selector]) => selector);
+      findings.push({
+        code: 'shadowed-branch',
+        message:
+          `Every number in category '${category}' is matched by ` +
+          covering.join(', '),
+        category,
+        branch,
+        exactBranches: covering,
+      });
+    }
+  }
+
+  for (const [category, branch] of keywordBranches) {
+    if (!rules.rules.has(category) && category !== 'other') {
+      findings.push({
+        code: 'unreachable-branch',
+        message: `Category '${category}' is not defined by the rule set`,
+        category,
+        branch,
+        exactBranches: [],
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Finds the numbers that the rule set only ever sees for values that are
+ * matched by an exact-value branch. The rule set sees the value minus the
+ * offset, which is negative for values below the offset. As the rule set
+ * only looks at the absolute value, a number up to the offset is seen both
+ * for the offset plus the number and the offset minus the number, and both
+ * must be matched exactly.
+ */
+function getCoveredValues(
+  exactValues: readonly number[],
+  offset: number
+): number[] {
+  const exact = new Set(exactValues);
+  const covered: number[] = [];
+  for (const value of exact) {
+    const n = value - offset;
+    if (n >= 0 && (n > offset || exact.has(offset - n))) {
+      covered.push(n);
+    }
+  }
+  return covered;
+}
+
+/**
+ * Finds the categories that some number is in, and those that some number not
+ * covered by exact values is in.
+ */
+function analyzeCategories(
+  rules: PluralRuleSet,
+  coveredValues: readonly number[]
+): { reachable: Set<PluralCategory>; uncovered: Set<PluralCategory> } {
+  const conditions: Condition[] = [];
+  for (const rule of rules.rules.values()) {
+    conditions.push(rule.condition);
+  }
+
+  // The relation `n = <covered values>` makes the solver tell apart the
+  // numbers that are covered by exact values.
+  let exactRelation: Relation | null = null;
+  if (coveredValues.length > 0) {
+    exactRelation = {
+      kind: 'Relation',
+      expr: { kind: 'Expr', operand: 'n', modDivisor: null },
+      ranges: coveredValues.map((value): Value => ({
+        kind: 'Value',
+        value,
+        source: String(value),
+      })),
+      negated: false,
+      within: false,
+    };
+    conditions.push(exactRelation);
+  }
+
+  const reachable = new Set<PluralCategory>();
+  const uncovered = new Set<PluralCategory>();
+  for (const { operands } of findRepresentatives(conditions)) {
+    const category = getPluralCategory(rules, operands);
+    reachable.add(category);
+    if (!exactRelation || !testRelation(exactRelation, operands)) {
+      uncovered.add(category);
+    }
+  }
+  return { reachable, uncovered };
+}
+
+/**
+ * Gets the value of an exact selector if it is a non-negative integer that
+ * can be represented exactly, or null otherwise.
+ */
+function getIntegerValue(source: string): number | null {
+  if (/^\s*-/.test(source)) {
+    return null;
+  }
+  const { integer, fraction } = parseDecimal(source);
+  const value = Number(integer);
+  return /^0*$/.test(fraction) && Number.isSafeInteger(value) ? value : null;
+}
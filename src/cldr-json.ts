@@ -0,0 +1,164 @@
+import { buildRuleSet } from './cldr';
+import { PluralRange } from './ranges';
+import { PluralRuleSet, PluralRuleType, PluralCategory } from './types';
+
+const RuleKeyPattern = /^pluralRule-count-([a-z]+)$/;
+const RangeKeyPattern = /^pluralRange-start-([a-z]+)-end-([a-z]+)$/;
+
+/**
+ * Loads plural rule sets from CLDR's JSON data, in the format of the files
+ * `supplemental/plurals.json` and `supplemental/ordinals.json` from the
+ * cldr-json distribution:
+ *
+ *     {
+ *       "supplemental": {
+ *         "plurals-type-cardinal": {
+ *           "en": {
+ *             "pluralRule-count-one": "i = 1 and v = 0 @integer 1",
+ *             "pluralRule-count-other": " @integer 0, 2~16, 100, …"
+ *           }
+ *         }
+ *       }
+ *     }
+ *
+ * The `supplemental` wrapper is optional. Properties other than
+ * `pluralRule-count-*` are ignored. The samples of the 'other' category end up
+ * in the `other` property of the rule set.
+ * @param data The JSON data, either as a string or already parsed.
+ * @param type The type of rules to load. If omitted, it is inferred from the
+ *        data, which must then contain either cardinal or ordinal rules, but
+ *        not both.
+ * @return A map from locale to rule set, in the order of the data.
+ * @throws {TypeError} The data is not in the expected format.
+ * @throws {ParseError} A rule contains a syntax error.
+ */
+export function loadCldrJson(
+  data: string | object,
+  type?: PluralRuleType
+): Map<string, PluralRuleSet> {
+  const root = getRoot(data);
+
+  if (!type) {
+    const types = (['cardinal', 'ordinal'] as const).filter(t =>
+      `plurals-type-${t}` in root
+    );
+    if (types.length !== 1) {
+      throw new TypeError(
+        types.length === 0
+          ? `Expected a 'plurals-type-cardinal' or 'plurals-type-ordinal' ` +
+            `property`
+          : `Data contains both cardinal and ordinal rules; specify which ` +
+            `type to load`
+      );
+    }
+    type = types[0];
+  }
+
+  const key = `plurals-type-${type}`;
+  const locales = root[key];
+  if (!isObject(locales)) {
+    throw new TypeError(`Expected '${key}' to be an object`);
+  }
+
+  const result = new Map<string, PluralRuleSet>();
+  for (const locale of Object.keys(locales)) {
+    const rules = locales[locale];
+    if (!isObject(rules)) {
+      throw new TypeError(
+        `Expected the rules for locale '${locale}' to be an object`
+      );
+    }
+
+    const entries: [PluralCategory, string][] = [];
+    for (const ruleKey of Object.keys(rules)) {
+      const m = RuleKeyPattern.exec(ruleKey);
+      if (!m) {
+        continue;
+      }
+      const source = rules[ruleKey];
+      if (typeof source !== 'string') {
+        throw new TypeError(
+          `Expected '${ruleKey}' in locale '${locale}' to be a string`
+        );
+      }
+      entries.push([m[1], source]);
+    }
+
+    result.set(locale, buildRuleSet(locale, entries));
+  }
+  return result;
+}
+
+/**
+ * Loads plural range data from CLDR's JSON data, in the format of the file
+ * `supplemental/pluralRanges.json` from the cldr-json distribution:
+ *
+ *     {
+ *       "supplemental": {
+ *         "plurals": {
+ *           "en": {
+ *             "pluralRange-start-one-end-other": "other",
+ *             "pluralRange-start-other-end-one": "one",
+ *             "pluralRange-start-other-end-other": "other"
+ *           }
+ *         }
+ *       }
+ *     }
+ *
+ * The `supplemental` wrapper is optional. Properties other than
+ * `pluralRange-start-*-end-*` are ignored.
+ * @param data The JSON data, either as a string or already parsed.
+ * @return A map from locale to plural ranges, in the order of the data.
+ * @throws {TypeError} The data is not in the expected format.
+ */
+export function loadPluralRangesJson(
+  data: string | object
+): Map<string, PluralRange[]> {
+  const root = getRoot(data);
+  const locales = root.plurals;
+  if (!isObject(locales)) {
+    throw new TypeError(`Expected 'plurals' to be an object`);
+  }
+
+  const result = new Map<string, PluralRange[]>();
+  for (const locale of Object.keys(locales)) {
+    const entries = locales[locale];
+    if (!isObject(entries)) {
+      throw new TypeError(
+        `Expected the ranges for locale '${locale}' to be an object`
+      );
+    }
+
+    const ranges: PluralRange[] = [];
+    for (const key of Object.keys(entries)) {
+      const m = RangeKeyPattern.exec(key);
+      if (!m) {
+        continue;
+      }
+      const value = entries[key];
+      if (typeof value !== 'string') {
+        throw new TypeError(
+          `Expected '${key}' in locale '${locale}' to be a string`
+        );
+      }
+      ranges.push({ start: m[1], end: m[2], result: value });
+    }
+    result.set(locale, ranges);
+  }
+  return result;
+}
+
+function getRoot(data: string | object): Record<string, unknown> {
+  let json: unknown = typeof data === 'string' ? JSON.parse(data) : data;
+  if (isObject(json) && isObject(json.supplemental)) {
+    json = json.supplemental;
+  }
+  if (!isObject(json)) {
+    throw new TypeError('Expected plural rule data to be an object');
+  }
+  return json;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,290 @@
+import { buildRuleSet } from './cldr';
+import { PluralRange } from './ranges';
+import { PluralRuleSet, PluralRuleType, PluralCategory } from './types';
+
+type RuleEntries = [PluralCategory, string][];
+
+type XmlEvent =
+  | { readonly kind: 'start'; readonly name: string; readonly attrs: Attrs }
+  | { readonly kind: 'end'; readonly name: string }
+  | { readonly kind: 'text'; readonly value: string };
+
+type Attrs = ReadonlyMap<string, string>;
+
+/**
+ * Loads plural rule sets from CLDR's XML data, in the format of the files
+ * `common/supplemental/plurals.xml` and `common/supplemental/ordinals.xml`:
+ *
+ *     <supplementalData>
+ *       <plurals type="cardinal">
+ *         <pluralRules locales="en fr">
+ *           <pluralRule count="one">i = 1 and v = 0 @integer 1</pluralRule>
+ *           <pluralRule count="other"> @integer 0, 2~16, 100, …</pluralRule>
+ *         </pluralRules>
+ *       </plurals>
+ *     </supplementalData>
+ *
+ * Each locale in the space-separated `locales` attribute gets its own rule set.
+ * A `plurals` element without a `type` attribute contains cardinal rules.
+ * Elements other than `plurals`, `pluralRules` and `pluralRule` are ignored.
+ * The samples of the 'other' category end up in the `other` property of the
+ * rule set.
+ *
+ * This function includes its own minimal XML reader, which understands
+ * elements, attributes, comments, CDATA sections, processing instructions,
+ * a document type declaration, and the predefined and numeric character
+ * references. It does not resolve external entities.
+ * @param xml The XML source text.
+ * @param type The type of rules to load. If omitted, it is inferred from the
+ *        data, which must then contain either cardinal or ordinal rules, but
+ *        not both.
+ * @return A map from locale to rule set, in the order of the data.
+ * @throws {SyntaxError} The source text is not well-formed XML.
+ * @throws {TypeError} The data is not in the expected format.
+ * @throws {ParseError} A rule contains a syntax error.
+ */
+export function loadCldrXml(
+  xml: string,
+  type?: PluralRuleType
+): Map<string, PluralRuleSet> {
+  const found = new Map<PluralRuleType, Map<string, RuleEntries>>();
+
+  const stack: string[] = [];
+  let locales: Map<string, RuleEntries> | null = null;
+  let entries: RuleEntries | null = null;
+  let rule: { category: PluralCategory; source: string } | null = null;
+
+  for (const event of readXml(xml)) {
+    switch (event.kind) {
+      case 'start': {
+        const { name, attrs } = event;
+        stack.push(name);
+
+        if (name === 'plurals') {
+          const pluralType = attrs.get('type') || 'cardinal';
+          if (pluralType !== 'cardinal' && pluralType !== 'ordinal') {
+            throw new TypeError(`Unknown plural rule type: ${pluralType}`);
+          }
+          locales = found.get(pluralType) || new Map();
+          found.set(pluralType, locales);
+        } else if (name === 'pluralRules' && locales && !entries) {
+          entries = [];
+          const localeList = getAttr(attrs, name, 'locales');
+          for (const locale of localeList.split(/\s+/)) {
+            if (!locale) {
+              continue;
+            }
+            if (locales.has(locale)) {
+              throw new TypeError(`Locale '${locale}' occurs more than once`);
+            }
+            // All the locales share the same list, which is filled in below.
+            locales.set(locale, entries);
+          }
+        } else if (name === 'pluralRule' && entries && !rule) {
+          rule = { category: getAttr(attrs, name, 'count'), source: '' };
+        }
+        break;
+      }
+      case 'end': {
+        const { name } = event;
+        if (stack.pop() !== name) {
+          throw new SyntaxError(`Unexpected end tag: </${name}>`);
+        }
+
+        if (entries && rule && name === 'pluralRule') {
+          entries.push([rule.category, rule.source]);
+          rule = null;
+        } else if (entries && name === 'pluralRules') {
+          entries = null;
+        } else if (locales && name === 'plurals') {
+          locales = null;
+        }
+        break;
+      }
+      case 'text':
+        if (rule) {
+          rule.source += event.value;
+        }
+        break;
+    }
+  }
+  if (stack.length > 0) {
+    throw new SyntaxError(`Unclosed element: <${stack[stack.length - 1]}>`);
+  }
+
+  if (!type) {
+    const types = Array.from(found.keys());
+    if (types.length !== 1) {
+      throw new TypeError(
+        types.length === 0
+          ? `Expected a 'plurals' element`
+          : `Data contains both cardinal and ordinal rules; specify which ` +
+            `type to load`
+      );
+    }
+    type = types[0];
+  }
+
+  const result = new Map<string, PluralRuleSet>();
+  const typeLocales = found.get(type);
+  if (!typeLocales) {
+    throw new TypeError(`Expected a 'plurals' element of type '${type}'`);
+  }
+  for (const [locale, localeEntries] of typeLocales) {
+    result.set(locale, buildRuleSet(locale, localeEntries));
+  }
+  return result;
+}
+
+/**
+ * Loads plural range data from CLDR's XML data, in the format of the file
+ * `common/supplemental/pluralRanges.xml`:
+ *
+ *     <supplementalData>
+ *       <plurals>
+ *         <pluralRanges locales="en">
+ *           <pluralRange start="one" end="other" result="other"/>
+ *           <pluralRange start="other" end="one" result="one"/>
+ *           <pluralRange start="other" end="other" result="other"/>
+ *         </pluralRanges>
+ *       </plurals>
+ *     </supplementalData>
+ *
+ * Each locale in the space-separated `locales` attribute gets its own list of
+ * ranges. Elements other than `pluralRanges` and `pluralRange` are ignored.
+ * See `loadCldrXml()` for details on XML support.
+ * @param xml The XML source text.
+ * @return A map from locale to plural ranges, in the order of the data.
+ * @throws {SyntaxError} The source text is not well-formed XML.
+ * @throws {TypeError} The data is not in the expected format.
+ */
+export function loadPluralRangesXml(xml: string): Map<string, PluralRange[]> {
+  const found = new Map<string, PluralRange[]>();
+
+  const stack: string[] = [];
+  let ranges: PluralRange[] | null = null;
+
+  for (const event of readXml(xml)) {
+    switch (event.kind) {
+      case 'start': {
+        const { name, attrs } = event;
+        stack.push(name);
+
+        if (name === 'pluralRanges' && !ranges) {
+          ranges = [];
+          const localeList = getAttr(attrs, name, 'locales');
+          for (const locale of localeList.split(/\s+/)) {
+            if (!locale) {
+              continue;
+            }
+            if (found.has(locale)) {
+              throw new TypeError(`Locale '${locale}' occurs more than once`);
+            }
+            // All the locales share the same list, which is filled in below.
+            found.set(locale, ranges);
+          }
+        } else if (name === 'pluralRange' && ranges) {
+          ranges.push({
+            start: getAttr(attrs, name, 'start'),
+            end: getAttr(attrs, name, 'end'),
+            result: getAttr(attrs, name, 'result'),
+          });
+        }
+        break;
+      }
+      case 'end':
+        if (stack.pop() !== event.name) {
+          throw new SyntaxError(`Unexpected end tag: </${event.name}>`);
+        }
+        if (ranges && event.name === 'pluralRanges') {
+          ranges = null;
+        }
+        break;
+      case 'text':
+        break;
+    }
+  }
+  if (stack.length > 0) {
+    throw new SyntaxError(`Unclosed element: <${stack[stack.length - 1]}>`);
+  }
+
+  // Give each locale its own copy of the list.
+  const result = new Map<string, PluralRange[]>();
+  for (const [locale, localeRanges] of found) {
+    result.set(locale, localeRanges.slice());
+  }
+  return result;
+}
+
+function getAttr(attrs: Attrs, element: string, name: string): string {
+  const value = attrs.get(name);
+  if (value === undefined) {
+    throw new TypeError(`Expected a '${name}' attribute on <${element}>`);
+  }
+  return value;
+}
+
+function* readXml(source: string): Generator<XmlEvent> {
+  // Group 1: CDATA section content.
+  // Group 2: End tag name.
+  // Group 3: Start tag name.
+  // Group 4: Start tag attributes.
+  // Group 5: '/' of a self-closing tag.
+  // Group 6: Text.
+  // Comments, processing instructions and the document type declaration are
+  // matched without a group, and skipped.
+  const xmlPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE(?:[^>\[]|\[[\s\S]*?\])*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>|([^<]+)/y;
+  const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let m: RegExpExecArray | null;
+  while (xmlPattern.lastIndex < source.length) {
+    const offset = xmlPattern.lastIndex;
+    if ((m = xmlPattern.exec(source)) === null) {
+      throw new SyntaxError(`Invalid XML at offset ${offset}`);
+    }
+
+    if (m[1] !== undefined) {
+      yield { kind: 'text', value: m[1] };
+    } else if (m[2]) {
+      yield { kind: 'end', name: m[2] };
+    } else if (m[3]) {
+      const attrs = new Map<string, string>();
+      let a: RegExpExecArray | null;
+      while ((a = attrPattern.exec(m[4])) !== null) {
+        const value = a[2] !== undefined ? a[2] : a[3];
+        attrs.set(a[1], decodeText(value, offset));
+      }
+      yield { kind: 'start', name: m[3], attrs };
+      if (m[5]) {
+        yield { kind: 'end', name: m[3] };
+      }
+    } else if (m[6]) {
+      yield { kind: 'text', value: decodeText(m[6], offset) };
+    }
+  }
+}
+
+function decodeText(text: string, offset: number): string {
+  const refPattern = /&(?:#x([\da-fA-F]+)|#(\d+)|(\w+));|&/g;
+  return text.replace(refPattern, (ref, hex, dec, name) => {
+    if (hex || dec) {
+      return String.fromCodePoint(parseInt(hex || dec, hex ? 16 : 10));
+    }
+    switch (name) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return '\'';
+      default:
+        throw new SyntaxError(
+          `Invalid character reference at offset ${offset}: ${ref}`
+        );
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { parseRule, parseOtherRule } from './parser';
+import ParseError, { ParseErrorDetails } from './parse-error';
+import { PluralRuleSet, PluralRule, PluralCategory, Samples } from './types';
+
+// Shared helpers for the CLDR data loaders.
+
+/**
+ * Builds a rule set from the rules of a single locale. In the CLDR data files,
+ * each category's rule is stored as a separate string.
+ * @param locale The locale the rules belong to, for error messages.
+ * @param rules The category names and rule strings, in rule set order.
+ * @return The rule set.
+ * @throws {ParseError} A rule contains a syntax error, or a category occurs
+ *         more than once. The location details of a syntax error are relative
+ *         to the rule string.
+ */
+export function buildRuleSet(
+  locale: string,
+  rules: Iterable<readonly [PluralCategory, string]>
+): PluralRuleSet {
+  const ruleMap = new Map<PluralCategory, PluralRule>();
+  let other: Samples | null = null;
+  let otherSeen = false;
+
+  for (const [category, source] of rules) {
+    if (category === 'other' ? otherSeen : ruleMap.has(category)) {
+      throw new ParseError(
+        `Category '${category}' occurs more than once in locale '${locale}'`
+      );
+    }
+
+    try {
+      if (category === 'other') {
+        other = parseOtherRule(source);
+        otherSeen = true;
+      } else {
+        ruleMap.set(category, parseRule(source));
+      }
+    } catch (e) {
+      if (e instanceof ParseError) {
+        throw new ParseError(
+          `Invalid rule for category '${category}' in locale '${locale}': ` +
+          e.message,
+          getDetails(e)
+        );
+      }
+      throw e;
+    }
+  }
+
+  return { kind: 'PluralRuleSet', rules: ruleMap, other };
+}
+
+/**
+ * Gets the location details of a parse error. Errors thrown by the parser
+ * always have them.
+ */
+function getDetails(error: ParseError): ParseErrorDetails | undefined {
+  const { offset, line, column, token, expected } = error;
+  if (
+    offset === undefined ||
+    line === undefined ||
+    column === undefined ||
+    token === undefined ||
+    expected === undefined
+  ) {
+    return undefined;
+  }
+  return { offset, line, column, token, expected };
+}
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import { parseRuleSet } from './parser';
+import ParseError from './parse-error';
+import { getPluralCategory } from './evaluate';
+import { verifySamples } from './samples';
+import { CategoryOverlap, analyzeOverlaps } from './overlaps';
+import { lintRuleSet } from './lint';
+import { normalizeRuleSet } from './normalize';
+import { stringifyRuleSet } from './stringify';
+import { PluralRuleSet, SourceSpan } from './types';
+
+const Usage = `Usage: cldr-plural-rules <command> [options] <file> [number...]
+
+Commands:
+  eval <file> [number...]  Print the plural category of each number. If no
+                           numbers are given, they are read from stdin,
+                           separated by whitespace.
+  check <file>             Verify the sample values, and look for overlapping
+                           categories and other mistakes in the rules.
+  format <file>            Print the rules, one per line.
+
+Options:
+  --normalize              Normalize the rules before printing them (format).
+  -h, --help               Print this help text.
+
+The exit code is 0 on success, 1 if the rule file contains errors or a number
+is invalid, and 2 if the command line is invalid.
+`;
+
+type Command = 'eval' | 'check' | 'format';
+
+const Commands: ReadonlySet<string> = new Set<Command>([
+  'eval',
+  'check',
+  'format',
+]);
+
+// A decimal number, optionally with an exponent, as in 1.5 or 1.2c3.
+const NumberPattern = /^[+-]?[0-9]+(?:\.[0-9]+)?(?:[ce][+-]?[0-9]+)?$/;
+
+class UsageError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * A problem found in a rule file. Diagnostics are printed as
+ * `file:line:col: severity: message`.
+ */
+interface Diagnostic {
+  readonly severity: 'error' | 'warning';
+  readonly message: string;
+  readonly span: SourceSpan | undefined;
+}
+
+/**
+ * Runs the command-line tool.
+ * @param args The command-line arguments, without the node executable and the
+ *        script path.
+ * @return The exit code.
+ */
+function main(args: readonly string[]): number {
+  let command: Command;
+  let file: string;
+  let numbers: string[];
+  let normalize: boolean;
+  try {
+    ({ command, file, numbers, normalize } = parseArgs(args));
+  } catch (e) {
+    if (!(e instanceof UsageError)) {
+      throw e;
+    }
+    if (e.message) {
+      process.stderr.write(`cldr-plural-rules: ${e.message}\n\n`);
+      process.stderr.write(Usage);
+    } else {
+      process.stdout.write(Usage);
+      return 0;
+    }
+    return 2;
+  }
+
+  let source: string;
+  try {
+    source = fs.readFileSync(file, 'utf8');
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    process.stderr.write(`cldr-plural-rules: cannot read ${file}: ${message}\n`);
+    return 1;
+  }
+
+  const { ruleSet, diagnostics } = parseRuleSet(source, {
+    recover: true,
+    locations: true,
+  });
+  if (diagnostics.length > 0) {
+    for (const error of diagnostics) {
+      process.stderr.write(formatParseError(file, error));
+    }
+    return 1;
+  }
+
+  switch (command) {
+    case 'eval':
+      return evaluate(ruleSet, numbers);
+    case 'check':
+      return check(ruleSet, file);
+    case 'format': {
+      const rules = normalize ? normalizeRuleSet(ruleSet) : ruleSet;
+      process.stdout.write(`${stringifyRuleSet(rules, { pretty: true })}\n`);
+      return 0;
+    }
+  }
+}
+
+interface Args {
+  readonly command: Command;
+  readonly file: string;
+  readonly numbers: string[];
+  readonly normalize: boolean;
+}
+
+/**
+ * Parses the command-line arguments.
+ * @throws {UsageError} The arguments are invalid. If help was requested, the
+ *         message is empty.
+ */
+function parseArgs(args: readonly string[]): Args {
+  const positional: string[] = [];
+  let normalize = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    switch (arg) {
+      case '-h':
+      case '--help':
+        throw new UsageError('');
+      case '--normalize':
+        normalize = true;
+        break;
+      default:
+        // Negative numbers are not options.
+        if (arg.startsWith('-') && !/^-[0-9.]/.test(arg)) {
+          throw new UsageError(`unknown option: ${arg}`);
+        }
+        positional.push(arg);
+        break;
+    }
+  }
+
+  const [command, file, ...numbers] = positional;
+  if (command === undefined) {
+    throw new UsageError('missing command');
+  }
+  if (!Commands.has(command)) {
+    throw new UsageError(`unknown command: ${command}`);
+  }
+  if (file === undefined) {
+    throw new UsageError('missing rule file');
+  }
+  if (command !== 'eval' && numbers.length > 0) {
+    throw new UsageError(`unexpected argument: ${numbers[0]}`);
+  }
+  if (command !== 'format' && normalize) {
+    throw new UsageError(`--normalize is only valid with format`);
+  }
+  return { command: command as Command, file, numbers, normalize };
+}
+
+function evaluate(
+  ruleSet: PluralRuleSet,
+  numbers: readonly string[]
+): number {
+  // File descriptor 0 is stdin.
+  const values = numbers.length > 0
+    ? numbers
+    : fs.readFileSync(0, 'utf8').split(/\s+/).filter(Boolean);
+
+  let exitCode = 0;
+  for (const value of values) {
+    // getPluralCategory() reads strings leniently, so '1abc' would be 1.
+    if (!NumberPattern.test(value)) {
+      process.stderr.write(`cldr-plural-rules: invalid number: ${value}\n`);
+      exitCode = 1;
+      continue;
+    }
+    try {
+      const category = getPluralCategory(ruleSet, value);
+      process.stdout.write(`${value}\t${category}\n`);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      process.stderr.write(`cldr-plural-rules: ${message}\n`);
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+}
+
+function check(ruleSet: PluralRuleSet, file: string): number {
+  const diagnostics: Diagnostic[] = [];
+
+  const { mismatches, invalidRanges } = verifySamples(ruleSet);
+  for (const mismatch of mismatches) {
+    diagnostics.push({
+      severity: 'error',
+      message:
+        `Sample ${mismatch.value} is listed under '${mismatch.category}' ` +
+        `but has category '${mismatch.actual}'`,
+      span: mismatch.sample.span,
+    });
+  }
+  for (const range of invalidRanges) {
+    diagnostics.push({
+      severity: 'error',
+      message: range.message,
+      span: range.sample.span,
+    });
+  }
+
+  let overlaps: CategoryOverlap[] = [];
+  try {
+    overlaps = analyzeOverlaps(ruleSet);
+  } catch (e) {
+    if (!(e instanceof RangeError)) {
+      throw e;
+    }
+    // The rules may still be fine; we just can't tell.
+    diagnostics.push({
+      severity: 'warning',
+      message: `Overlaps were not checked: ${e.message}`,
+      span: undefined,
+    });
+  }
+  for (const overlap of overlaps) {
+    const [first, second] = overlap.categories;
+    const rule = ruleSet.rules.get(second);
+    diagnostics.push({
+      severity: 'error',
+      message:
+        `Categories '${first}' and '${second}' overlap, ` +
+        `e.g. ${overlap.witnesses.join(', ')}`,
+      span: rule ? rule.span : undefined,
+    });
+  }
+
+  for (const finding of lintRuleSet(ruleSet)) {
+    diagnostics.push({
+      severity: finding.severity,
+      message: `${finding.message} [${finding.code}]`,
+      span: finding.node.span,
+    });
+  }
+
+  // Sort by location; diagnostics without one come first.
+  diagnostics.sort((a, b) =>
+    (a.span ? a.span.start.offset : -1) - (b.span ? b.span.start.offset : -1)
+  );
+  for (const diagnostic of diagnostics) {
+    process.stderr.write(formatDiagnostic(file, diagnostic));
+  }
+
+  return diagnostics.some(d => d.severity === 'error') ? 1 : 0;
+}
+
+function formatParseError(file: string, error: ParseError): string {
+  const location = error.line !== undefined
+    ? `${file}:${error.line}:${error.column}`
+    : file;
+  return `${location}: error: ${error.message}\n`;
+}
+
+function formatDiagnostic(file: string, diagnostic: Diagnostic): string {
+  const { severity, message, span } = diagnostic;
+  const location = span
+    ? `${file}:${span.start.line}:${span.start.column}`
+    : file;
+  return `${location}: ${severity}: ${message}\n`;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,316 @@
+import { collectOperands } from './compile';
+import { sortCategories } from './plural-rules';
+import { stringifyRule } from './stringify';
+import {
+  PluralRuleSet,
+  PluralCategory,
+  Condition,
+  Relation,
+  Expr,
+  Operand,
+} from './types';
+
+/**
+ * Options that control the output of `generateModule()`.
+ */
+export interface GenerateOptions {
+  /**
+   * The language of the generated module: `'js'` for an ES module, or `'ts'`
+   * for a TypeScript module with type annotations. Defaults to `'js'`.
+   */
+  readonly language?: 'js' | 'ts';
+}
+
+/**
+ * Generated code for a condition, along with its top-level operator, which
+ * determines whether it must be parenthesized.
+ */
+interface ConditionCode {
+  readonly code: string;
+  readonly operator: '&&' | '||' | null;
+}
+
+/**
+ * Generates a self-contained ES module that exports one function per locale.
+ * Each function takes a number and returns its plural category, and computes
+ * only the operands that its rules need. The module does not depend on this
+ * package, so it can be generated by a build script and shipped on its own.
+ *
+ * Function names are derived from locale names: characters that are not valid
+ * in identifiers are replaced by `_`, so `pt-PT` becomes `pt_PT`. Reserved
+ * words get a trailing `_`. The module also exports the type `PluralCategory`,
+ * the union of every category in the rule sets.
+ *
+ * Generated functions accept numbers and decimal strings, with exponents
+ * written with 'c' or 'e', as `getPluralCategory()` does. Operands are
+ * computed as numbers rather than exactly, so numbers beyond double precision
+ * may be categorized differently than by `getPluralCategory()`.
+ * @param locales The rule sets to generate functions for, keyed by locale.
+ * @param options Options that control the output.
+ * @return The source text of the module.
+ * @throws {Error} Two locales result in the same function name.
+ */
+export function generateModule(
+  locales: ReadonlyMap<string, PluralRuleSet>,
+  options: GenerateOptions = {}
+): string {
+  const { language = 'js' } = options;
+  const ts = language === 'ts';
+
+  const names = new Map<string, string>();
+  const categories: PluralCategory[] = [];
+  const functions: string[] = [];
+  let usesDecimal = false;
+  for (const [locale, rules] of locales) {
+    const name = getFunctionName(locale);
+    const other = names.get(name);
+    if (other !== undefined) {
+      throw new Error(
+        `Locales '${other}' and '${locale}' have the same function name: ${name}`
+      );
+    }
+    names.set(name, locale);
+
+    categories.push(...rules.rules.keys());
+    const fn = generateFunction(locale, name, rules, ts);
+    functions.push(fn.code);
+    usesDecimal = usesDecimal || fn.usesDecimal;
+  }
+  const categoryUnion = sortCategories(categories)
+    .map(c => `'${c}'`)
+    .join(' | ');
+  const result = [
+    '// Generated by cldr-plural-rules. Do not edit.',
+    ts
+      ? `export type PluralCategory = ${categoryUnion};`
+      : `/** @typedef {${categoryUnion}} PluralCategory */`,
+  ];
+  if (usesDecimal) {
+    result.push(generateDecimalReader(ts));
+  }
+  result.push(...functions);
+  return result.join('\n\n') + '\n';
+}
+
+const ReservedWords = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'debugger', 'default', 'delete', 'do', 'else', 'enum', 'eval', 'export',
+  'extends', 'false', 'finally', 'for', 'function', 'if', 'implements',
+  'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with',
+  'yield',
+  // Names used by the generated module itself.
+  'readDecimal', 'PluralCategory',
+]);
+
+function getFunctionName(locale: string): string {
+  let name = locale.replace(/[^\w$]/g, '_');
+  if (/^\d/.test(name)) {
+    name = `_${name}`;
+  }
+  if (ReservedWords.has(name)) {
+    name += '_';
+  }
+  return name;
+}
+
+function generateDecimalReader(ts: boolean): string {
+  // Equivalent to parseDecimal() in ./operands, and to how readOperands()
+  // uses its exponent.
+  const param = ts ? 'num: number | string' : 'num';
+  const returnType = ts ? ': [string, string, number]' : '';
+  const nonNull = ts ? '!' : '';
+  return [
+    `function readDecimal(${param})${returnType} {`,
+    `  const m = /^\\s*[+\\-]?(\\d*)(?:\\.(\\d*))?(?:[ceE]([+\\-]?\\d+))?/.exec(String(num))${nonNull};`,
+    `  let i = m[1];`,
+    `  let f = m[2] || '';`,
+    `  const e = m[3] ? +m[3] : 0;`,
+    `  if (e > 0) {`,
+    `    f = f.padEnd(e, '0');`,
+    `    i += f.slice(0, e);`,
+    `    f = f.slice(e);`,
+    `  } else if (e < 0) {`,
+    `    i = i.padStart(1 - e, '0');`,
+    `    f = i.slice(e) + f;`,
+    `    i = i.slice(0, e);`,
+    `  }`,
+    // Only a string can be written in compact form.
+    `  return [i, f, typeof num === 'string' ? Math.max(e, 0) : 0];`,
+    `}`,
+  ].join('\n');
+}
+
+function generateFunction(
+  locale: string,
+  name: string,
+  rules: PluralRuleSet,
+  ts: boolean
+): { code: string; usesDecimal: boolean } {
+  const operands = new Set<Operand>();
+  for (const rule of rules.rules.values()) {
+    collectOperands(rule.condition, operands);
+  }
+  const { lines: operandLines, usesDecimal } = generateOperands(operands);
+
+  // A function without rules never reads its parameter.
+  const paramName = rules.rules.size > 0 ? 'num' : '_num';
+
+  const doc = [`/**`, ` * Plural rules for ${locale}.`];
+  for (const [category, rule] of rules.rules) {
+    doc.push(` * ${category}: ${stringifyRule({ ...rule, samples: null })}`);
+  }
+  if (!ts) {
+    doc.push(
+      ` * @param {number | string} ${paramName}`,
+      ` * @returns {PluralCategory}`
+    );
+  }
+  doc.push(` */`);
+
+  const param = ts ? `${paramName}: number | string` : paramName;
+  const returnType = ts ? ': PluralCategory' : '';
+  const body = operandLines.slice();
+  for (const [category, rule] of rules.rules) {
+    const { code } = generateCondition(rule.condition);
+    body.push(`if (${code}) return '${category}';`);
+  }
+  body.push(`return 'other';`);
+
+  const code = [
+    ...doc,
+    `export function ${name}(${param})${returnType} {`,
+    ...body.map(line => `  ${line}`),
+    `}`,
+  ].join('\n');
+  return { code, usesDecimal };
+}
+
+function generateOperands(
+  operands: ReadonlySet<Operand>
+): { lines: string[]; usesDecimal: boolean } {
+  const has = (...names: Operand[]) => names.some(name => operands.has(name));
+
+  // Every operand except n and i requires the digits of the number. If only
+  // n and i are used, i is derived from n instead.
+  const usesDecimal = has('v', 'w', 'f', 't', 'c', 'e');
+  const lines: string[] = [];
+  if (has('n') || has('i') && !usesDecimal) {
+    lines.push(
+      `const n = Math.abs(typeof num === 'number' ? num : ` +
+      `parseFloat(num.replace('c', 'e')));`
+    );
+  }
+  if (usesDecimal) {
+    const parts = [
+      has('i') ? 'id' : '',
+      has('v', 'w', 'f', 't') ? 'fd' : '',
+      has('c', 'e') ? 'exp' : '',
+    ];
+    while (!parts[parts.length - 1]) {
+      parts.pop();
+    }
+    lines.push(`const [${parts.join(', ')}] = readDecimal(num);`);
+  }
+  if (has('i')) {
+    lines.push(usesDecimal ? `const i = +id;` : `const i = Math.floor(n);`);
+  }
+  if (has('v')) {
+    lines.push(`const v = fd.length;`);
+  }
+  if (has('f')) {
+    lines.push(`const f = +fd;`);
+  }
+  if (has('w', 't')) {
+    lines.push(`const td = fd.replace(/0+$/, '');`);
+  }
+  if (has('w')) {
+    lines.push(`const w = td.length;`);
+  }
+  if (has('t')) {
+    lines.push(`const t = +td;`);
+  }
+  if (has('c')) {
+    lines.push(`const c = exp;`);
+  }
+  if (has('e')) {
+    lines.push(`const e = exp;`);
+  }
+  return { lines, usesDecimal };
+}
+
+function generateCondition(node: Condition): ConditionCode {
+  switch (node.kind) {
+    case 'OrCondition':
+      return {
+        code: node.alternatives
+          .map(alt => parenthesize(generateCondition(alt), '&&'))
+          .join(' || '),
+        operator: '||',
+      };
+    case 'AndCondition':
+      return {
+        code: node.relations
+          .map(rel => parenthesize(generateRelation(rel), '||'))
+          .join(' && '),
+        operator: '&&',
+      };
+    case 'Relation':
+      return generateRelation(node);
+  }
+}
+
+function generateRelation(node: Relation): ConditionCode {
+  const { ranges, negated } = node;
+  const x = generateExpr(node.expr);
+  // Only n can have a fraction, which never matches a range unless the
+  // relation uses `within`. The other operands are always integers.
+  const integerOnly = !node.within && node.expr.operand === 'n';
+
+  if (ranges.length === 1 && ranges[0].kind === 'Value') {
+    const operator = negated ? '!==' : '===';
+    return { code: `${x} ${operator} ${ranges[0].value}`, operator: null };
+  }
+
+  const tests = ranges.map((range): ConditionCode => {
+    if (range.kind === 'Value') {
+      return { code: `${x} === ${range.value}`, operator: null };
+    }
+    const parts = [`${x} >= ${range.start.value}`, `${x} <= ${range.end.value}`];
+    if (integerOnly) {
+      parts.unshift(`${x} % 1 === 0`);
+    }
+    return { code: parts.join(' && '), operator: '&&' };
+  });
+
+  const result: ConditionCode = tests.length === 1
+    ? tests[0]
+    : {
+      code: tests.map(test => parenthesize(test, '&&')).join(' || '),
+      operator: '||',
+    };
+  return negated
+    ? { code: `!(${result.code})`, operator: null }
+    : result;
+}
+
+/**
+ * Parenthesizes code if its top-level operator is the specified operator.
+ * Strictly, `&&` binds tighter than `||` and never needs parentheses inside
+ * it, but the generated code is easier to read with them.
+ */
+function parenthesize(
+  condition: ConditionCode,
+  operator: '&&' | '||'
+): string {
+  return condition.operator === operator
+    ? `(${condition.code})`
+    : condition.code;
+}
+
+function generateExpr(node: Expr): string {
+  return node.modDivisor
+    ? `${node.operand} % ${node.modDivisor.value}`
+    : node.operand;
+}
@@ -0,0 +1,214 @@
+import {
+  Operands,
+  Integer,
+  PluralInput,
+  NumberFormatSpec,
+  createOperandReader,
+  modulo,
+  getExactValue,
+} from './operands';
+import {
+  PluralRuleSet,
+  PluralRule,
+  PluralCategory,
+  Condition,
+  Relation,
+  Expr,
+  RangeList,
+  Range,
+  Value,
+  Operand,
+} from './types';
+
+/**
+ * A compiled plural rule set. Gets the plural category of a number.
+ */
+export type CompiledRuleSet = (
+  n: PluralInput,
+  format?: NumberFormatSpec
+) => PluralCategory;
+
+/**
+ * A compiled plural rule. Tests whether a number matches the rule.
+ */
+export type CompiledRule = (
+  n: PluralInput,
+  format?: NumberFormatSpec
+) => boolean;
+
+type Predicate = (op: Operands) => boolean;
+
+type ExprEvaluator = (op: Operands) => Integer;
+
+/**
+ * Tests the integer part of a value. If `fractional` is true, the value also
+ * has a non-zero fraction.
+ */
+type ValueTest = (value: Integer, fractional: boolean) => boolean;
+
+/**
+ * Compiles a plural rule set into a function that gets the plural category of
+ * a number. The compiled function produces the same result as
+ * `getPluralCategory()`, but does not walk the syntax tree on every call, and
+ * only computes the operands that the rules actually use.
+ * @param rules The rule set to compile.
+ * @return A function that takes a number and returns the first matching plural
+ *         category, or `'other'` if no category matched. The number and the
+ *         optional format are interpreted the same way as by
+ *         `getPluralCategory()`.
+ */
+export function compileRuleSet(rules: PluralRuleSet): CompiledRuleSet {
+  if (rules.rules.size === 0) {
+    return () => 'other';
+  }
+
+  const operands = new Set<Operand>();
+  const categories: PluralCategory[] = [];
+  const predicates: Predicate[] = [];
+  for (const [category, rule] of rules.rules) {
+    collectOperands(rule.condition, operands);
+    categories.push(category);
+    predicates.push(compileCondition(rule.condition));
+  }
+
+  const readOperands = createOperandReader(operands);
+  const count = predicates.length;
+  return (n, format) => {
+    const op = readOperands(n, format);
+    for (let i = 0; i < count; i++) {
+      if (predicates[i](op)) {
+        return categories[i];
+      }
+    }
+    return 'other';
+  };
+}
+
+/**
+ * Compiles a plural rule into a function that tests a number against the rule.
+ * The compiled function produces the same result as `testPluralRule()`, but
+ * does not walk the syntax tree on every call, and only computes the operands
+ * that the rule actually uses.
+ * @param rule The rule to compile.
+ * @return A function that takes a number and returns true if the number
+ *         matches the rule. The number and the optional format are interpreted
+ *         the same way as by `testPluralRule()`.
+ */
+export function compileRule(rule: PluralRule): CompiledRule {
+  const operands = new Set<Operand>();
+  collectOperands(rule.condition, operands);
+
+  const readOperands = createOperandReader(operands);
+  const predicate = compileCondition(rule.condition);
+  return (n, format) => predicate(readOperands(n, format));
+}
+
+export function collectOperands(
+  node: Condition,
+  operands: Set<Operand>
+): void {
+  switch (node.kind) {
+    case 'OrCondition':
+      for (const alternative of node.alternatives) {
+        collectOperands(alternative, operands);
+      }
+      break;
+    case 'AndCondition':
+      for (const relation of node.relations) {
+        collectOperands(relation, operands);
+      }
+      break;
+    case 'Relation':
+      operands.add(node.expr.operand);
+      break;
+  }
+}
+
+function compileCondition(node: Condition): Predicate {
+  switch (node.kind) {
+    case 'OrCondition': {
+      const alternatives = node.alternatives.map(compileCondition);
+      const count = alternatives.length;
+      return op => {
+        for (let i = 0; i < count; i++) {
+          if (alternatives[i](op)) {
+            return true;
+          }
+        }
+        return false;
+      };
+    }
+    case 'AndCondition': {
+      const relations = node.relations.map(compileRelation);
+      const count = relations.length;
+      return op => {
+        for (let i = 0; i < count; i++) {
+          if (!relations[i](op)) {
+            return false;
+          }
+        }
+        return true;
+      };
+    }
+    case 'Relation':
+      return compileRelation(node);
+  }
+}
+
+function compileRelation(relation: Relation): Predicate {
+  const evaluate = compileExpr(relation.expr);
+  const test = compileRangeList(relation.ranges, relation.within);
+  const { negated } = relation;
+  if (relation.expr.operand === 'n') {
+    // Only n can have a fraction. See compileExpr().
+    return op => test(evaluate(op), op.t !== 0) !== negated;
+  }
+  return op => test(evaluate(op), false) !== negated;
+}
+
+function compileExpr(expr: Expr): ExprEvaluator {
+  // The operand n is evaluated as i, which is exact even when n is not. Its
+  // fraction is passed separately to the value test.
+  const operand = expr.operand === 'n' ? 'i' : expr.operand;
+  if (expr.modDivisor) {
+    const divisor = getExactValue(expr.modDivisor);
+    return op => modulo(op[operand], divisor);
+  }
+  return op => op[operand];
+}
+
+function compileRangeList(ranges: RangeList, within: boolean): ValueTest {
+  // The vast majority of relations test against a single value or range, so
+  // we avoid the loop for those.
+  const tests = ranges.map(range => compileRange(range, within));
+  if (tests.length === 1) {
+    return tests[0];
+  }
+
+  const count = tests.length;
+  return (value, fractional) => {
+    for (let i = 0; i < count; i++) {
+      if (tests[i](value, fractional)) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+function compileRange(range: Range | Value, within: boolean): ValueTest {
+  if (range.kind === 'Value') {
+    const expected = getExactValue(range);
+    return (value, fractional) => !fractional && value == expected;
+  }
+
+  const start = getExactValue(range.start);
+  const end = getExactValue(range.end);
+  if (within) {
+    // A value with a fraction lies strictly between `value` and `value + 1`.
+    return (value, fractional) =>
+      start <= value && (fractional ? value < end : value <= end);
+  }
+  // If within is false, then values in ranges only match against integers.
+  return (value, fractional) => !fractional && start <= value && value <= end;
+}
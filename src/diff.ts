@@ -0,0 +1,79 @@
+import { getPluralCategory } from './evaluate';
+import { findRepresentatives } from './solver';
+import { PluralRuleSet, PluralCategory, Condition } from './types';
+
+/**
+ * A group of numbers that two rule sets assign to different categories.
+ */
+export interface CategoryDifference {
+  /**
+   * The category of the numbers in the first rule set, followed by their
+   * category in the second rule set.
+   */
+  readonly categories: readonly [PluralCategory, PluralCategory];
+  /**
+   * Numbers that change category, simplest first. Each number is written with
+   * its visible fraction digits, and can be passed to `getPluralCategory()`.
+   */
+  readonly witnesses: readonly string[];
+}
+
+/**
+ * Compares two plural rule sets semantically, and finds the numbers whose
+ * category differs between them. Rule sets that differ only in formatting,
+ * relation order or the way a condition is written, but assign the same
+ * category to every number, have no differences. Samples are ignored.
+ *
+ * Numbers are grouped by how they affect each relation in both rule sets, so
+ * the comparison covers every number without enumerating them.
+ * @param a The first rule set, such as the rules of an older CLDR release.
+ * @param b The second rule set, such as the rules of a newer CLDR release.
+ * @param maxWitnesses The maximum number of witnesses to return for each pair
+ *        of categories.
+ * @return The differences, grouped by the category in each rule set, in order
+ *         of their simplest witness. If the array is empty, the rule sets are
+ *         equivalent.
+ * @throws {RangeError} The rules are too complex to analyze exactly, because
+ *         their constants or the least common multiple of their modulo
+ *         divisors are too large.
+ */
+export function diffRuleSets(
+  a: PluralRuleSet,
+  b: PluralRuleSet,
+  maxWitnesses = 3
+): CategoryDifference[] {
+  const conditions: Condition[] = [];
+  for (const rule of a.rules.values()) {
+    conditions.push(rule.condition);
+  }
+  for (const rule of b.rules.values()) {
+    conditions.push(rule.condition);
+  }
+
+  // Keyed by the pair of categories. Maps preserve insertion order, so the
+  // groups end up in order of their simplest witness.
+  const differences = new Map<string, {
+    categories: [PluralCategory, PluralCategory];
+    witnesses: string[];
+  }>();
+  for (const { operands, source } of findRepresentatives(conditions)) {
+    const categoryA = getPluralCategory(a, operands);
+    const categoryB = getPluralCategory(b, operands);
+    if (categoryA === categoryB) {
+      continue;
+    }
+
+    // Category names can only contain letters, so a space is a safe separator.
+    const key = `${categoryA} ${categoryB}`;
+    let difference = differences.get(key);
+    if (!difference) {
+      difference = { categories: [categoryA, categoryB], witnesses: [] };
+      differences.set(key, difference);
+    }
+    if (difference.witnesses.length < maxWitnesses) {
+      difference.witnesses.push(source);
+    }
+  }
+
+  return Array.from(differences.values());
+}
@@ -1,4 +1,12 @@
-import { Operands, getOperands } from './operands';
+import {
+  Operands,
+  Integer,
+  PluralInput,
+  NumberFormatSpec,
+  getOperands,
+  modulo,
+  getExactValue,
+} from './operands';
 import {
   PluralRuleSet,
   PluralRule,
@@ -7,24 +15,34 @@ import {
   Relation,
   Expr,
   Range,
+  Value,
 } from './types';
 
 /**
  * Gets the plural category of a number based on the specified rules.
  * @param rules The rule set to match the number against.
  * @param n The number to get the plural category for. If the value is a string,
- *        it's parsed by `parseFloat()`. Decimal digits and exponents are taken
- *        from the input string. If the value is a number, decimal digits and
- *        exponents are taken from the `String()`-formatted value.
+ *        it's parsed as a decimal number of any length and precision. Decimal
+ *        digits and exponents are taken from the input string. If the value is
+ *        a number, decimal digits are taken from the `String()`-formatted
+ *        value, with its exponent applied; the number is never treated as
+ *        compact, so c and e are 0. The exponent of a string may be written
+ *        with 'c' or 'e', and is applied as defined by CLDR. A bigint is an
+ *        integer with no fraction digits. If the value is an operands object,
+ *        its operands are used directly.
+ * @param format If specified, the number is formatted by `Intl.NumberFormat`
+ *        with these options before its operands are computed, so that the
+ *        category matches the formatted number. See `getOperands()`.
  * @return The first matching plural category, or `'other'` if no category
  *         matched.
  */
 export function getPluralCategory(
   rules: PluralRuleSet,
-  n: number | string
+  n: PluralInput,
+  format?: NumberFormatSpec
 ): PluralCategory {
   if (rules.rules.size > 0) {
-    const op = getOperands(n);
+    const op = getOperands(n, format);
     for (const [category, rule] of rules.rules) {
       if (testCondition(rule.condition, op)) {
         return category;
@@ -37,18 +55,22 @@ export function getPluralCategory(
 /**
  * Tests a plural rule against a number.
  * @param rule The rule to test the number against.
- * @param n The number to test. If the value is a string, it's parsed by
- *        `parseFloat()`. Decimal digits and exponents are taken from the input
- *        string. If the value is a number, decimal digits and exponents are
- *        taken from the `String()`-formatted value.
+ * @param n The number to test. The value is interpreted the same way as by
+ *        `getPluralCategory()`.
+ * @param format If specified, the number is formatted with these options
+ *        before its operands are computed. See `getPluralCategory()`.
  * @return True if the number matches the plural rule. Otherwise, false.
  */
-export function testPluralRule(rule: PluralRule, n: number | string): boolean {
-  const op = getOperands(n);
+export function testPluralRule(
+  rule: PluralRule,
+  n: PluralInput,
+  format?: NumberFormatSpec
+): boolean {
+  const op = getOperands(n, format);
   return testCondition(rule.condition, op);
 }
 
-function testCondition(node: Condition, op: Operands): boolean {
+export function testCondition(node: Condition, op: Operands): boolean {
   switch (node.kind) {
     case 'OrCondition': {
       const { alternatives } = node;
@@ -73,42 +95,81 @@ function testCondition(node: Condition, op: Operands): boolean {
   }
 }
 
-function testRelation(relation: Relation, op: Operands): boolean {
-  let value = evaluateExpr(relation.expr, op);
+export function testRelation(relation: Relation, op: Operands): boolean {
+  const value = evaluateExpr(relation.expr, op);
+  const fractional = hasFraction(relation.expr, op);
+  const match = findMatchingRange(relation, value, fractional);
+
+  // If relation.negated is false, return true if a range matches;
+  // If relation.negated is true, return true if no range matches.
+  // In other words,
+  return (match !== null) !== relation.negated;
+}
 
-  let anyRangeMatches = false;
+/**
+ * Finds the first range or value in a relation's range list that contains the
+ * value of its expression. The relation's `negated` flag is not taken into
+ * account.
+ * @param relation The relation whose ranges should be searched.
+ * @param value The integer part of the expression, from `evaluateExpr()`.
+ * @param fractional Whether the expression has a non-zero fraction, from
+ *        `hasFraction()`.
+ * @return The first range or value that contains the value, or null if none
+ *         does.
+ */
+export function findMatchingRange(
+  relation: Relation,
+  value: Integer,
+  fractional: boolean
+): Range | Value | null {
   const { ranges } = relation;
   for (let i = 0; i < ranges.length; i++) {
     const range = ranges[i];
     if (
       range.kind === 'Value'
-        ? range.value === value
-        : rangeContains(range, value, relation.within)
+        ? !fractional && getExactValue(range) == value
+        : rangeContains(range, value, fractional, relation.within)
     ) {
-      anyRangeMatches = true;
-      break;
+      return range;
     }
   }
-
-  // If relation.negated is false, return true if anyRangeMatches is true;
-  // If relation.negated is true, return true if anyRangeMatches is false.
-  // In other words,
-  return anyRangeMatches !== relation.negated;
+  return null;
 }
 
-function evaluateExpr(expr: Expr, op: Operands): number {
-  const value = op[expr.operand];
+/**
+ * Evaluates the integer part of an expression. The operand `n` is evaluated
+ * as `i`, which is exact even when `n` is not; its fraction is accounted for
+ * by `hasFraction()`.
+ */
+export function evaluateExpr(expr: Expr, op: Operands): Integer {
+  const value = expr.operand === 'n' ? op.i : op[expr.operand];
   if (expr.modDivisor) {
-    return value % expr.modDivisor.value;
+    return modulo(value, getExactValue(expr.modDivisor));
   }
   return value;
 }
 
-function rangeContains(range: Range, value: number, within: boolean): boolean {
-  if (!within && !Number.isInteger(value)) {
+/**
+ * Determines whether an expression has a non-zero fraction. Only `n` can have
+ * one, and `n % x` has the same fraction as `n`.
+ */
+export function hasFraction(expr: Expr, op: Operands): boolean {
+  return expr.operand === 'n' && op.t !== 0;
+}
+
+function rangeContains(
+  range: Range,
+  value: Integer,
+  fractional: boolean,
+  within: boolean
+): boolean {
+  const start = getExactValue(range.start);
+  const end = getExactValue(range.end);
+  if (fractional) {
+    // The actual value is between `value` and `value + 1`, exclusive.
     // If within is false, then values in ranges only match against integers.
     // Basically, `1.5 in 1..2` is false, but `1.5 within 1..2` is true.
-    return false;
+    return within && start <= value && value < end;
   }
-  return range.start.value <= value && value <= range.end.value;
+  return start <= value && value <= end;
 }
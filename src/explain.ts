@@ -0,0 +1,224 @@
+import {
+  Operands,
+  Integer,
+  PluralInput,
+  NumberFormatSpec,
+  getOperands,
+} from './operands';
+import { evaluateExpr, hasFraction, findMatchingRange } from './evaluate';
+import {
+  PluralRuleSet,
+  PluralRule,
+  PluralCategory,
+  Condition,
+  OrCondition,
+  AndCondition,
+  Relation,
+  Range,
+  Value,
+} from './types';
+
+/**
+ * An explanation of how the plural category of a number was determined.
+ */
+export interface PluralExplanation {
+  /**
+   * The operands of the number, as computed by `getOperands()`.
+   */
+  readonly operands: Operands;
+  /**
+   * The plural category of the number, as returned by `getPluralCategory()`.
+   */
+  readonly category: PluralCategory;
+  /**
+   * The rules that were tried, in rule set order. The last rule is the one
+   * that matched, unless no rule matched and the category is 'other'.
+   */
+  readonly rules: readonly RuleTrace[];
+}
+
+/**
+ * The evaluation of a single plural rule.
+ */
+export interface RuleTrace {
+  /**
+   * The category of the rule.
+   */
+  readonly category: PluralCategory;
+  /**
+   * The rule that was evaluated.
+   */
+  readonly rule: PluralRule;
+  /**
+   * True if the rule matched the number.
+   */
+  readonly matched: boolean;
+  /**
+   * The evaluation of the rule's condition.
+   */
+  readonly condition: ConditionTrace;
+}
+
+/**
+ * The evaluation of a condition. The `kind` property is the same as that of
+ * the condition node.
+ */
+export type ConditionTrace =
+  | OrConditionTrace
+  | AndConditionTrace
+  | RelationTrace;
+
+/**
+ * The evaluation of an "or" condition.
+ */
+export interface OrConditionTrace {
+  readonly kind: 'OrCondition';
+  /**
+   * The condition that was evaluated.
+   */
+  readonly node: OrCondition;
+  /**
+   * True if any of the alternatives matched.
+   */
+  readonly matched: boolean;
+  /**
+   * The evaluation of every alternative, in source order.
+   */
+  readonly alternatives: readonly (AndConditionTrace | RelationTrace)[];
+}
+
+/**
+ * The evaluation of an "and" condition.
+ */
+export interface AndConditionTrace {
+  readonly kind: 'AndCondition';
+  /**
+   * The condition that was evaluated.
+   */
+  readonly node: AndCondition;
+  /**
+   * True if all of the relations matched.
+   */
+  readonly matched: boolean;
+  /**
+   * The evaluation of every relation, in source order.
+   */
+  readonly relations: readonly RelationTrace[];
+}
+
+/**
+ * The evaluation of a relation.
+ */
+export interface RelationTrace {
+  readonly kind: 'Relation';
+  /**
+   * The relation that was evaluated.
+   */
+  readonly node: Relation;
+  /**
+   * True if the relation matched, taking `not` and `!=` into account.
+   */
+  readonly matched: boolean;
+  /**
+   * The value of the relation's expression, after `mod`, as a decimal string.
+   * The value of `n` (and `n % x`) includes the visible fraction digits of the
+   * number, without trailing zeros. If the `mod` divisor is 0, the value is
+   * 'NaN'.
+   */
+  readonly value: string;
+  /**
+   * The first range or value in the relation's range list that contains the
+   * value, or null if none does. If the relation is negated, it matches only
+   * when this is null.
+   */
+  readonly match: Range | Value | null;
+}
+
+/**
+ * Explains how the plural category of a number is determined: the operands of
+ * the number, and how each rule evaluated, in the order the rules were tried.
+ * Rules are tried the same way as by `getPluralCategory()`, stopping at the
+ * first rule that matches. Within a rule, every alternative and relation is
+ * evaluated, even when the result is already known, so that the explanation
+ * shows every part of the condition.
+ * @param rules The rule set to match the number against.
+ * @param n The number to explain the plural category of. The value is
+ *        interpreted the same way as by `getPluralCategory()`.
+ * @param format If specified, the number is formatted with these options
+ *        before its operands are computed. See `getPluralCategory()`.
+ * @return The explanation.
+ */
+export function explainPluralCategory(
+  rules: PluralRuleSet,
+  n: PluralInput,
+  format?: NumberFormatSpec
+): PluralExplanation {
+  const operands = getOperands(n, format);
+  const traces: RuleTrace[] = [];
+  for (const [category, rule] of rules.rules) {
+    const condition = explainCondition(rule.condition, operands);
+    traces.push({ category, rule, matched: condition.matched, condition });
+    if (condition.matched) {
+      return { operands, category, rules: traces };
+    }
+  }
+  return { operands, category: 'other', rules: traces };
+}
+
+function explainCondition(node: Condition, op: Operands): ConditionTrace {
+  switch (node.kind) {
+    case 'OrCondition': {
+      const alternatives = node.alternatives.map(alt =>
+        alt.kind === 'AndCondition'
+          ? explainAndCondition(alt, op)
+          : explainRelation(alt, op)
+      );
+      return {
+        kind: 'OrCondition',
+        node,
+        matched: alternatives.some(alt => alt.matched),
+        alternatives,
+      };
+    }
+    case 'AndCondition':
+      return explainAndCondition(node, op);
+    case 'Relation':
+      return explainRelation(node, op);
+  }
+}
+
+function explainAndCondition(
+  node: AndCondition,
+  op: Operands
+): AndConditionTrace {
+  const relations = node.relations.map(rel => explainRelation(rel, op));
+  return {
+    kind: 'AndCondition',
+    node,
+    matched: relations.every(rel => rel.matched),
+    relations,
+  };
+}
+
+function explainRelation(node: Relation, op: Operands): RelationTrace {
+  const value = evaluateExpr(node.expr, op);
+  const fractional = hasFraction(node.expr, op);
+  const match = findMatchingRange(node, value, fractional);
+  return {
+    kind: 'Relation',
+    node,
+    matched: (match !== null) !== node.negated,
+    value: fractional ? formatFraction(value, op) : String(value),
+    match,
+  };
+}
+
+/**
+ * Formats the integer part of an expression on `n` with the fraction of `n`.
+ */
+function formatFraction(value: Integer, op: Operands): string {
+  if (typeof value === 'number' && isNaN(value)) {
+    return 'NaN';
+  }
+  return `${value}.${String(op.t).padStart(op.w, '0')}`;
+}
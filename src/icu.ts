@@ -0,0 +1,187 @@
+import { getPluralCategory } from './evaluate';
+import { NumberFormatSpec, parseDecimal } from './operands';
+import { PluralRuleSet } from './types';
+
+/**
+ * Options that control branch selection in `selectPluralBranch()`.
+ */
+export interface PluralBranchOptions {
+  /**
+   * The offset of the plural argument, as in `{n, plural, offset:1 ...}`.
+   * Keywords are matched against the value minus the offset. Defaults to 0.
+   */
+  readonly offset?: number;
+  /**
+   * If specified, the value minus the offset is formatted with these options
+   * before its plural category is determined. Exact matches are not affected.
+   * See `getPluralCategory()` for details.
+   */
+  readonly format?: NumberFormatSpec;
+}
+
+/**
+ * A number split into its sign and exact digits.
+ */
+interface SignedDecimal {
+  readonly source: string;
+  readonly negative: boolean;
+  readonly integer: string;
+  readonly fraction: string;
+  readonly exponent: number;
+}
+
+const ExactSelectorPattern = /^=\s*([+\-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+\-]?\d+)?)$/;
+const KeywordSelectorPattern = /^[^\s=]+$/;
+
+/**
+ * Selects a branch of an ICU MessageFormat `plural` or `selectordinal`
+ * argument, the same way ICU does:
+ *
+ * 1. An exact selector, such as `=0`, matches if the value is numerically
+ *    equal to it. The value is compared *before* the offset is subtracted, and
+ *    trailing zeros do not matter: `'1.0'` matches `=1`. An exact match takes
+ *    precedence over keywords, wherever it is in the list.
+ * 2. Otherwise, the first keyword that is equal to the plural category of the
+ *    value minus the offset is selected.
+ * 3. Otherwise, `other` is selected.
+ *
+ * The offset is subtracted exactly, and the result keeps the fraction digits
+ * of the value, so that `'1.50'` with offset 1 is categorized as `'0.50'`.
+ * @param rules The rule set to categorize the value with: cardinal rules for
+ *        `plural`, ordinal rules for `selectordinal`.
+ * @param value The value of the argument. This can be a number, a bigint or a
+ *        decimal string, but not an operands object, as exact selectors and
+ *        offsets need the signed value.
+ * @param selectors The selectors of the branches, in source order, such as
+ *        `['=0', 'one', 'other']`.
+ * @param options Options that control branch selection.
+ * @return The selected selector, exactly as it appears in `selectors`.
+ * @throws {RangeError} A selector is not valid, there is no `other` selector,
+ *         the value is not a finite number, or an offset is applied to a value
+ *         with an exponent.
+ */
+export function selectPluralBranch(
+  rules: PluralRuleSet,
+  value: number | string | bigint,
+  selectors: Iterable<string>,
+  options: PluralBranchOptions = {}
+): string {
+  const { offset = 0, format } = options;
+
+  const decimal = readSignedDecimal(value);
+  const offsetValue = offset === 0 ? value : subtractOffset(decimal, offset);
+  // Every selector is read, even after a match, so that invalid selectors and
+  // a missing `other` are reported for every value.
+  let exactMatch: string | null = null;
+  let keywordMatch: string | null = null;
+  let hasOther = false;
+  let category: string | null = null;
+  for (const selector of selectors) {
+    const exact = readExactSelector(selector);
+    if (exact !== null) {
+      if (
+        exactMatch === null &&
+        equalDecimals(decimal, readSignedDecimal(exact))
+      ) {
+        exactMatch = selector;
+      }
+    } else if (selector === 'other') {
+      hasOther = true;
+    } else if (keywordMatch === null && exactMatch === null) {
+      if (category === null) {
+        category = getPluralCategory(rules, offsetValue, format);
+      }
+      if (selector === category) {
+        keywordMatch = selector;
+      }
+    }
+  }
+
+  if (!hasOther) {
+    throw new RangeError(`Plural branches must include 'other'`);
+  }
+  if (exactMatch !== null) {
+    return exactMatch;
+  }
+  return keywordMatch !== null ? keywordMatch : 'other';
+}
+
+/**
+ * Reads a selector of an ICU MessageFormat plural argument.
+ * @param selector The selector, such as `'=0'` or `'one'`.
+ * @return The number of an exact selector, such as `'0'` for `'=0'`, or null
+ *         if the selector is a keyword.
+ * @throws {RangeError} The selector is not valid.
+ */
+export function readExactSelector(selector: string): string | null {
+  const exact = ExactSelectorPattern.exec(selector);
+  if (exact) {
+    return exact[1];
+  }
+  if (!KeywordSelectorPattern.test(selector)) {
+    throw new RangeError(`Invalid plural selector: ${selector}`);
+  }
+  return null;
+}
+
+function readSignedDecimal(value: number | string | bigint): SignedDecimal {
+  const source = String(value);
+  if (!Number.isFinite(parseFloat(source.replace('c', 'e')))) {
+    throw new RangeError(`Number is not finite: ${source}`);
+  }
+  const { integer, fraction, exponent } = parseDecimal(source);
+  return {
+    source,
+    negative: /^\s*-/.test(source),
+    // Trailing zeros in the fraction don't change the value, but are kept for
+    // subtractOffset().
+    integer,
+    fraction,
+    exponent,
+  };
+}
+
+/**
+ * Determines whether two decimals have the same numeric value. Zero is equal
+ * to negative zero.
+ */
+function equalDecimals(a: SignedDecimal, b: SignedDecimal): boolean {
+  return getScaledValue(a, b) === getScaledValue(b, a);
+}
+
+/**
+ * Gets the value of a decimal as a bigint, scaled so that both `value` and
+ * `other` are integers.
+ */
+function getScaledValue(value: SignedDecimal, other: SignedDecimal): bigint {
+  const digits = Math.max(value.fraction.length, other.fraction.length);
+  const scaled = BigInt(value.integer + value.fraction.padEnd(digits, '0'));
+  return value.negative ? -scaled : scaled;
+}
+
+/**
+ * Subtracts the offset from a value, and returns the result as a decimal
+ * string with at least as many fraction digits as the value.
+ */
+function subtractOffset(value: SignedDecimal, offset: number): string {
+  if (value.exponent !== 0) {
+    throw new RangeError(
+      `Cannot apply an offset to a number with an exponent: ${value.source}`
+    );
+  }
+
+  const offsetDecimal = readSignedDecimal(offset);
+  const digits = Math.max(value.fraction.length, offsetDecimal.fraction.length);
+  const difference =
+    getScaledValue(value, offsetDecimal) -
+    getScaledValue(offsetDecimal, value);
+
+  const negative = difference < BigInt(0);
+  const absolute = String(negative ? -difference : difference)
+    .padStart(digits + 1, '0');
+  const point = absolute.length - digits;
+  const result = digits > 0
+    ? `${absolute.slice(0, point)}.${absolute.slice(point)}`
+    : absolute;
+  return negative ? `-${result}` : result;
+}
@@ -1,4 +1,87 @@
-export { parseRuleSet, parseRule } from './parser';
-export { default as ParseError } from './parse-error';
+export {
+  parseRuleSet,
+  parseRule,
+  ParseOptions,
+  RecoverOptions,
+  RecoveredRuleSet,
+} from './parser';
+export { default as ParseError, ParseErrorDetails } from './parse-error';
 export { getPluralCategory, testPluralRule } from './evaluate';
+export {
+  explainPluralCategory,
+  PluralExplanation,
+  RuleTrace,
+  ConditionTrace,
+  OrConditionTrace,
+  AndConditionTrace,
+  RelationTrace,
+} from './explain';
+export {
+  getOperands,
+  Operands,
+  Integer,
+  PluralInput,
+  NumberFormatSpec,
+} from './operands';
+export {
+  compileRuleSet,
+  compileRule,
+  CompiledRuleSet,
+  CompiledRule,
+} from './compile';
+export {
+  verifySamples,
+  expandSamples,
+  generateSamples,
+  SampleOptions,
+  SampleReport,
+  SampleMismatch,
+  InvalidSampleRange,
+  ExpandedSamples,
+} from './samples';
+export { analyzeOverlaps, CategoryOverlap } from './overlaps';
+export { diffRuleSets, CategoryDifference } from './diff';
+export {
+  lintRuleSet,
+  lintRule,
+  LintFinding,
+  LintCode,
+  LintSeverity,
+  LintNode,
+} from './lint';
+export {
+  stringifyRuleSet,
+  stringifyRule,
+  StringifyOptions,
+} from './stringify';
+export { normalizeRuleSet, normalizeRule } from './normalize';
+export {
+  walk,
+  transform,
+  SyntaxKind,
+  NodeOfKind,
+  SyntaxPath,
+  Visitor,
+  VisitorHooks,
+  Transformer,
+  TransformerHooks,
+  NodeReplacements,
+} from './walk';
+export { generateModule, GenerateOptions } from './codegen';
+export { getPluralRangeCategory, PluralRange } from './ranges';
+export { selectPluralBranch, PluralBranchOptions } from './icu';
+export {
+  checkPluralBranches,
+  BranchCheckOptions,
+  BranchFinding,
+  BranchCode,
+} from './branches';
+export {
+  PluralRules,
+  PluralRulesData,
+  PluralRulesOptions,
+  ResolvedPluralRulesOptions,
+} from './plural-rules';
+export { loadCldrJson, loadPluralRangesJson } from './cldr-json';
+export { loadCldrXml, loadPluralRangesXml } from './cldr-xml';
 export * from './types';
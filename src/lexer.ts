@@ -1,5 +1,5 @@
 import ParseError from './parse-error';
-import { Operand } from './types';
+import { Operand, SourcePosition, SourceSpan } from './types';
 
 // Tokens are an internal implementation detail, so are not in ./types.
 
@@ -7,6 +7,23 @@ export interface Lexer {
   peek(): Token;
   next(): Token;
   accept(kind: Keyword | Operator | Operand | SampleCategory): boolean;
+  /**
+   * Gets the source text of a token, or null for the end-of-file token.
+   */
+  text(token: Token): string | null;
+  /**
+   * Converts an offset in the source text to a line and column.
+   */
+  locate(offset: number): SourcePosition;
+  /**
+   * Gets the span from the specified offset to the end of the most recently
+   * consumed token. Returns undefined if the lexer does not track locations.
+   */
+  spanFrom(start: number): SourceSpan | undefined;
+  /**
+   * Creates a parse error at the specified token.
+   */
+  error(message: string, token: Token, expected?: readonly string[]): ParseError;
 }
 
 export type Token =
@@ -18,7 +35,18 @@ export type Token =
   | ValueToken
   | EofToken;
 
-export interface KeywordToken {
+interface TokenBase {
+  /**
+   * The offset of the first character of the token.
+   */
+  readonly start: number;
+  /**
+   * The offset immediately after the last character of the token.
+   */
+  readonly end: number;
+}
+
+export interface KeywordToken extends TokenBase {
   readonly kind: Keyword;
 }
 
@@ -39,7 +67,7 @@ export type Keyword =
   | 'or'
   | 'within';
 
-export interface OperatorToken {
+export interface OperatorToken extends TokenBase {
   readonly kind: Operator;
 }
 
@@ -54,16 +82,16 @@ export type Operator =
   | '='
   | '~';
 
-export interface OperandToken {
+export interface OperandToken extends TokenBase {
   readonly kind: Operand;
 }
 
-export interface PluralCategoryToken {
+export interface PluralCategoryToken extends TokenBase {
   readonly kind: 'PluralCategory';
   readonly name: string;
 }
 
-export interface SampleCategoryToken {
+export interface SampleCategoryToken extends TokenBase {
   readonly kind: SampleCategory;
 }
 
@@ -71,28 +99,71 @@ export type SampleCategory =
   | '@integer'
   | '@decimal';
 
-export interface ValueToken {
+export interface ValueToken extends TokenBase {
   readonly kind: 'Value';
   readonly source: string;
   readonly isInt: boolean;
 }
 
-export interface EofToken {
+export interface EofToken extends TokenBase {
   readonly kind: 'EOF';
 }
 
-export default function lex(source: string): Lexer {
-  const tokenGenerator = tokens(source);
+/**
+ * Creates a lexer for the specified source text.
+ * @param source The source text.
+ * @param locations If true, the lexer tracks locations for parse node spans.
+ * @param diagnostics If not null, invalid tokens are recorded here and skipped
+ *        instead of being thrown.
+ */
+export default function lex(
+  source: string,
+  locations = false,
+  diagnostics: ParseError[] | null = null
+): Lexer {
+  // Offsets of the first character of each line, computed on demand.
+  let lineStarts: number[] | null = null;
+
+  const locate = (offset: number): SourcePosition => {
+    if (!lineStarts) {
+      lineStarts = [0];
+      const linePattern = /\r\n?|\n/g;
+      while (linePattern.exec(source) !== null) {
+        lineStarts.push(linePattern.lastIndex);
+      }
+    }
+
+    // Binary search for the last line that starts at or before the offset.
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  const tokenGenerator = tokens(source, locate, diagnostics);
+  const eof: EofToken = {
+    kind: 'EOF',
+    start: source.length,
+    end: source.length,
+  };
 
   const readNext = (): Token => {
     const next = tokenGenerator.next();
     if (next.done) {
-      return { kind: 'EOF' };
+      return eof;
     }
     return next.value;
   };
 
   let peekedToken: Token | null = null;
+  let previousEnd = 0;
 
   return {
     peek() {
@@ -102,12 +173,17 @@ export default function lex(source: string): Lexer {
       return peekedToken;
     },
     next() {
+      let result: Token;
       if (peekedToken) {
-        const result = peekedToken;
+        result = peekedToken;
         peekedToken = null;
-        return result;
+      } else {
+        result = readNext();
+      }
+      if (result.kind !== 'EOF') {
+        previousEnd = result.end;
       }
-      return readNext();
+      return result;
     },
     accept(kind) {
       const token = this.peek();
@@ -117,10 +193,31 @@ export default function lex(source: string): Lexer {
       }
       return false;
     },
+    text(token) {
+      return token.kind === 'EOF' ? null : source.slice(token.start, token.end);
+    },
+    locate,
+    spanFrom(start) {
+      if (!locations) {
+        return undefined;
+      }
+      return {
+        start: locate(start),
+        end: locate(Math.max(start, previousEnd)),
+      };
+    },
+    error(message, token, expected) {
+      const position = locate(token.start);
+      return createError(message, position, this.text(token), expected);
+    },
   };
 };
 
-function* tokens(source: string): Generator<Token> {
+function* tokens(
+  source: string,
+  locate: (offset: number) => SourcePosition,
+  diagnostics: ParseError[] | null
+): Generator<Token> {
   // Group 1: Keyword- or operand-like (sequence of letters), preceded by
   //          optional '@'. If the name doesn't match a known keyword and
   //          doesn't start with '@', we treat it as a plural category.
@@ -132,28 +229,59 @@ function* tokens(source: string): Generator<Token> {
 
   let m: RegExpExecArray | null;
   while ((m = tokenPattern.exec(source)) !== null) {
+    const start = m.index;
+    const end = tokenPattern.lastIndex;
     if (m[1]) {
       const word = m[1];
       if (isKeyword(word) || isOperand(word) || isSampleCategory(word)) {
-        yield { kind: word };
+        yield { kind: word, start, end };
       } else if (word[0] !== '@') {
-        yield { kind: 'PluralCategory', name: word };
+        yield { kind: 'PluralCategory', name: word, start, end };
       } else {
-        throw new ParseError(`Unknown keyword token: ${word}`);
+        report(diagnostics, createError(
+          `Unknown keyword token: ${word}`,
+          locate(start),
+          word,
+          ['@integer', '@decimal']
+        ));
       }
     } else if (m[2]) {
       const operator = m[2];
-      yield { kind: operator === '…' ? '...' : operator as Operator };
+      yield {
+        kind: operator === '…' ? '...' : operator as Operator,
+        start,
+        end,
+      };
     } else if (m[3]) {
       const value = m[3];
       const isInt = !m[4];
-      yield { kind: 'Value', source: value, isInt };
+      yield { kind: 'Value', source: value, isInt, start, end };
     } else {
-      throw new ParseError(`Invalid character: ${m[5]}`);
+      report(
+        diagnostics,
+        createError(`Invalid character: ${m[5]}`, locate(start), m[5])
+      );
     }
   }
 }
 
+function createError(
+  message: string,
+  position: SourcePosition,
+  token: string | null,
+  expected: readonly string[] = []
+): ParseError {
+  return new ParseError(message, { ...position, token, expected });
+}
+
+function report(diagnostics: ParseError[] | null, error: ParseError) {
+  if (!diagnostics) {
+    throw error;
+  }
+  // The invalid token is skipped.
+  diagnostics.push(error);
+}
+
 function isKeyword(source: string): source is Keyword {
   switch (source) {
     case 'and':
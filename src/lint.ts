@@ -0,0 +1,411 @@
+import { Operands } from './operands';
+import { testCondition, testRelation } from './evaluate';
+import { findRepresentatives, Representative } from './solver';
+import {
+  PluralRuleSet,
+  PluralRule,
+  PluralCategory,
+  Condition,
+  AndCondition,
+  Relation,
+  Expr,
+  RangeList,
+  Range,
+  Value,
+} from './types';
+
+/**
+ * A problem found by the linter.
+ */
+export interface LintFinding {
+  /**
+   * A code that identifies the kind of problem.
+   */
+  readonly code: LintCode;
+  /**
+   * The severity of the problem. Errors are definitely mistakes, such as
+   * relations that can never match. Warnings are suspicious, but harmless.
+   */
+  readonly severity: LintSeverity;
+  /**
+   * A human-readable description of the problem.
+   */
+  readonly message: string;
+  /**
+   * The offending node.
+   */
+  readonly node: LintNode;
+  /**
+   * The plural category whose rule contains the offending node, or null if a
+   * single rule was linted.
+   */
+  readonly category: PluralCategory | null;
+}
+
+/**
+ * Identifies a kind of problem found by the linter:
+ *
+ * * `mod-by-zero`: A `mod` divisor is 0, so the expression never has a value.
+ * * `mod-by-one`: A `mod` divisor is 1, so the expression is always 0.
+ * * `reversed-range`: A range's start is greater than its end, so the range is
+ *   empty.
+ * * `redundant-range`: A value or range in a range list is covered by other
+ *   entries in the same list.
+ * * `unsatisfiable-relation`: A relation can never match.
+ * * `always-true-relation`: A relation always matches.
+ * * `fraction-without-digits`: A relation requires `f` or `t` to be non-zero,
+ *   in an "and" condition that also requires `v = 0` or `w = 0`.
+ * * `unsatisfiable-and`: An "and" condition can never match, even though each
+ *   of its relations can.
+ * * `always-true-condition`: A rule's condition always matches.
+ */
+export type LintCode =
+  | 'mod-by-zero'
+  | 'mod-by-one'
+  | 'reversed-range'
+  | 'redundant-range'
+  | 'unsatisfiable-relation'
+  | 'always-true-relation'
+  | 'fraction-without-digits'
+  | 'unsatisfiable-and'
+  | 'always-true-condition';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintNode = Condition | Expr | Range | Value;
+
+interface LintContext {
+  readonly category: PluralCategory | null;
+  readonly findings: LintFinding[];
+}
+
+/**
+ * Lints every rule in a rule set. The linter finds conditions that can never
+ * match or always match, as well as suspicious constructs such as redundant
+ * ranges. Such rules are syntactically valid, but almost certainly mistakes.
+ * @param rules The rule set to lint.
+ * @return The problems that were found, in source order.
+ */
+export function lintRuleSet(rules: PluralRuleSet): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const [category, rule] of rules.rules) {
+    lintCondition(rule.condition, { category, findings });
+  }
+  return findings;
+}
+
+/**
+ * Lints a single plural rule. See `lintRuleSet()` for details.
+ * @param rule The rule to lint.
+ * @return The problems that were found, in source order.
+ */
+export function lintRule(rule: PluralRule): LintFinding[] {
+  const findings: LintFinding[] = [];
+  lintCondition(rule.condition, { category: null, findings });
+  return findings;
+}
+
+function lintCondition(condition: Condition, context: LintContext): void {
+  let alwaysTrueReported: boolean;
+  switch (condition.kind) {
+    case 'OrCondition':
+      for (const alternative of condition.alternatives) {
+        if (alternative.kind === 'AndCondition') {
+          lintAndCondition(alternative, context);
+        } else {
+          lintRelation(alternative, context);
+        }
+      }
+      alwaysTrueReported = false;
+      break;
+    case 'AndCondition':
+      lintAndCondition(condition, context);
+      // If every relation in the condition always matches, they have all been
+      // reported already.
+      alwaysTrueReported = true;
+      break;
+    case 'Relation':
+      lintRelation(condition, context);
+      alwaysTrueReported = true;
+      break;
+  }
+
+  if (!alwaysTrueReported && !getOutcomes(condition).canBeFalse) {
+    report(
+      context,
+      'always-true-condition',
+      'warning',
+      `Condition always matches`,
+      condition
+    );
+  }
+}
+
+/**
+ * Lints an "and" condition.
+ * @return True if the condition is known never to match, and this has been
+ *         reported.
+ */
+function lintAndCondition(node: AndCondition, context: LintContext): boolean {
+  let unsatisfiable = false;
+  for (const relation of node.relations) {
+    if (lintRelation(relation, context)) {
+      unsatisfiable = true;
+    }
+  }
+  if (unsatisfiable) {
+    return true;
+  }
+
+  if (lintFractionWithoutDigits(node, context)) {
+    return true;
+  }
+
+  if (!getOutcomes(node).canBeTrue) {
+    report(
+      context,
+      'unsatisfiable-and',
+      'error',
+      `Relations in 'and' condition can never match at the same time`,
+      node
+    );
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Lints a relation.
+ * @return True if the relation is known never to match, and this has been
+ *         reported.
+ */
+function lintRelation(relation: Relation, context: LintContext): boolean {
+  const findingCount = context.findings.length;
+
+  lintExpr(relation.expr, context);
+  lintRangeList(relation.ranges, relation.within, context);
+
+  const hasFindings = context.findings.length > findingCount;
+  const expr = describeExpr(relation.expr);
+  const { canBeTrue, canBeFalse } = getOutcomes(relation);
+  if (!canBeTrue) {
+    if (!hasFindings) {
+      report(
+        context,
+        'unsatisfiable-relation',
+        'error',
+        `Relation on '${expr}' can never match`,
+        relation
+      );
+    }
+    return true;
+  }
+  if (!hasFindings && !canBeFalse) {
+    report(
+      context,
+      'always-true-relation',
+      'warning',
+      `Relation on '${expr}' always matches`,
+      relation
+    );
+  }
+  return false;
+}
+
+function lintExpr(expr: Expr, context: LintContext): void {
+  const { modDivisor } = expr;
+  if (!modDivisor) {
+    return;
+  }
+
+  if (modDivisor.value === 0) {
+    report(
+      context,
+      'mod-by-zero',
+      'error',
+      `Division by zero in '${describeExpr(expr)}'`,
+      expr
+    );
+  } else if (modDivisor.value === 1) {
+    report(
+      context,
+      'mod-by-one',
+      'warning',
+      `'${describeExpr(expr)}' is always 0`,
+      expr
+    );
+  }
+}
+
+function lintRangeList(
+  ranges: RangeList,
+  within: boolean,
+  context: LintContext
+): void {
+  // Reversed ranges are empty, so they don't cover anything.
+  const intervals: ([number, number] | null)[] = ranges.map(range => {
+    if (range.kind === 'Value') {
+      return [range.value, range.value];
+    }
+    const { start, end } = range;
+    if (start.value > end.value) {
+      report(
+        context,
+        'reversed-range',
+        'error',
+        `Range ${start.value}..${end.value} is empty: ` +
+        `its start is greater than its end`,
+        range
+      );
+      return null;
+    }
+    return [start.value, end.value];
+  });
+
+  // Later entries are checked first, so that of two duplicates, the later one
+  // is the one reported.
+  const redundant = ranges.map(() => false);
+  for (let i = ranges.length - 1; i >= 0; i--) {
+    const interval = intervals[i];
+    const others = intervals.filter((_, j) => j !== i);
+    if (interval && isCovered(interval, others, within)) {
+      redundant[i] = true;
+      // Don't let the redundant entry cover anything else, or duplicates
+      // would cover each other.
+      intervals[i] = null;
+    }
+  }
+
+  ranges.forEach((range, i) => {
+    if (redundant[i]) {
+      report(
+        context,
+        'redundant-range',
+        'warning',
+        range.kind === 'Value'
+          ? `Value ${range.value} is already covered by the range list`
+          : `Range ${range.start.value}..${range.end.value} is already ` +
+            `covered by the range list`,
+        range
+      );
+    }
+  });
+}
+
+function lintFractionWithoutDigits(
+  node: AndCondition,
+  context: LintContext
+): boolean {
+  // With no visible fraction digits, f and t are always 0.
+  const requiresNoDigits = node.relations.some(r =>
+    (r.expr.operand === 'v' || r.expr.operand === 'w') &&
+    !r.expr.modDivisor &&
+    !r.negated &&
+    r.ranges.every(range =>
+      range.kind === 'Value'
+        ? range.value === 0
+        : range.start.value === 0 && range.end.value === 0
+    )
+  );
+  if (!requiresNoDigits) {
+    return false;
+  }
+
+  let found = false;
+  const zero: Operands = { n: 0, i: 0, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 };
+  for (const relation of node.relations) {
+    const { operand } = relation.expr;
+    if ((operand === 'f' || operand === 't') && !testRelation(relation, zero)) {
+      report(
+        context,
+        'fraction-without-digits',
+        'error',
+        `'${operand}' is always 0 when there are no visible fraction digits`,
+        relation
+      );
+      found = true;
+    }
+  }
+  return found;
+}
+
+function isCovered(
+  interval: [number, number],
+  others: readonly ([number, number] | null)[],
+  within: boolean
+): boolean {
+  const sorted = others
+    .filter((other): other is [number, number] => other !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Walk through the other intervals in order, extending the covered part of
+  // `interval` from the start. Without 'within', ranges contain only integers,
+  // so adjacent ranges such as 1..2 and 3..4 leave no gap.
+  const gap = within ? 0 : 1;
+  let [start, end] = interval;
+  for (const [otherStart, otherEnd] of sorted) {
+    if (otherStart > start) {
+      break;
+    }
+    if (otherEnd >= end) {
+      return true;
+    }
+    start = Math.max(start, otherEnd + gap);
+  }
+  return false;
+}
+
+interface Outcomes {
+  readonly canBeTrue: boolean;
+  readonly canBeFalse: boolean;
+}
+
+function getOutcomes(condition: Condition): Outcomes {
+  let representatives: Representative[];
+  try {
+    representatives = findRepresentatives([condition]);
+  } catch (e) {
+    if (!(e instanceof RangeError)) {
+      throw e;
+    }
+    // The condition is too complex to analyze. Assume the best, so that only
+    // problems that are known for certain are reported.
+    return { canBeTrue: true, canBeFalse: true };
+  }
+
+  let canBeTrue = false;
+  let canBeFalse = false;
+  for (const { operands } of representatives) {
+    if (testCondition(condition, operands)) {
+      canBeTrue = true;
+    } else {
+      canBeFalse = true;
+    }
+    if (canBeTrue && canBeFalse) {
+      break;
+    }
+  }
+  return { canBeTrue, canBeFalse };
+}
+
+function describeExpr(expr: Expr): string {
+  return expr.modDivisor
+    ? `${expr.operand} % ${expr.modDivisor.value}`
+    : expr.operand;
+}
+
+function report(
+  context: LintContext,
+  code: LintCode,
+  severity: LintSeverity,
+  message: string,
+  node: LintNode
+): void {
+  context.findings.push({
+    code,
+    severity,
+    message,
+    node,
+    category: context.category,
+  });
+}
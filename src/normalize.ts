@@ -0,0 +1,317 @@
+import { analyzeOverlaps } from './overlaps';
+import { sortCategories } from './plural-rules';
+import {
+  PluralRuleSet,
+  PluralRule,
+  PluralCategory,
+  Condition,
+  Alternative,
+  Relation,
+  Expr,
+  RangeList,
+  Range,
+  Value,
+  Samples,
+  SampleList,
+  SampleRange,
+  SampleValue,
+} from './types';
+
+/**
+ * An interval of values, with the nodes of its bounds.
+ */
+interface Interval {
+  start: Value;
+  end: Value;
+}
+
+/**
+ * Rewrites a plural rule set into a canonical form. Rule sets that are written
+ * differently but normalize to the same form are equivalent. The normalized
+ * rule set assigns the same category to every number as the original.
+ *
+ * * Ranges and values in each relation are sorted, and overlapping or adjacent
+ *   ones are merged: `n = 4, 1..2, 3` becomes `n = 1..4`. As in CLDR, ranges
+ *   of two integers are written as two values: `n = 0..1` becomes `n = 0,1`.
+ * * `within` relations become `in` relations where the two are equivalent,
+ *   that is, when the operand is not `n`, or when the relation contains no
+ *   ranges. The parser already reads `is` and `is not` as `in` and `not in`.
+ * * Conditions with a single alternative or relation are unwrapped, nested
+ *   conditions are flattened, and duplicate relations and alternatives are
+ *   removed.
+ * * Categories are ordered 'zero', 'one', 'two', 'few', 'many', followed by
+ *   non-standard categories. Categories whose rules overlap keep their order
+ *   relative to each other, as that order decides which one a number gets.
+ *   If the rules are too complex to find the overlaps of, as described in
+ *   `analyzeOverlaps()`, all categories keep their original order.
+ *
+ * Samples are kept as they are. Source locations are not preserved.
+ * @param rules The rule set to normalize.
+ * @return The normalized rule set.
+ */
+export function normalizeRuleSet(rules: PluralRuleSet): PluralRuleSet {
+  const normalized = new Map<PluralCategory, PluralRule>();
+  for (const [category, rule] of rules.rules) {
+    normalized.set(category, normalizeRule(rule));
+  }
+
+  let result: Map<PluralCategory, PluralRule>;
+  try {
+    result = sortRules(normalized);
+  } catch (e) {
+    if (!(e instanceof RangeError)) {
+      throw e;
+    }
+    result = normalized;
+  }
+
+  return {
+    kind: 'PluralRuleSet',
+    rules: result,
+    other: rules.other && normalizeSamples(rules.other),
+  };
+}
+
+/**
+ * Orders normalized rules by category, keeping overlapping categories in their
+ * original order relative to each other.
+ * @throws {RangeError} The rules are too complex to find the overlaps of.
+ */
+function sortRules(
+  normalized: Map<PluralCategory, PluralRule>
+): Map<PluralCategory, PluralRule> {
+  // A category must stay after every earlier category that it overlaps.
+  const mustFollow = new Map<PluralCategory, PluralCategory[]>();
+  const overlaps = analyzeOverlaps(
+    { kind: 'PluralRuleSet', rules: normalized, other: null },
+    1
+  );
+  for (const { categories: [first, second] } of overlaps) {
+    let predecessors = mustFollow.get(second);
+    if (!predecessors) {
+      predecessors = [];
+      mustFollow.set(second, predecessors);
+    }
+    predecessors.push(first);
+  }
+
+  const pending = sortCategories(normalized.keys());
+  pending.pop(); // 'other'
+  const result = new Map<PluralCategory, PluralRule>();
+  while (pending.length > 0) {
+    // There is always a category whose predecessors have all been added: the
+    // earliest pending category in the original order.
+    const index = pending.findIndex(category => {
+      const predecessors = mustFollow.get(category);
+      return !predecessors || predecessors.every(c => result.has(c));
+    });
+    const category = pending.splice(index, 1)[0];
+    result.set(category, normalized.get(category)!);
+  }
+  return result;
+}
+
+/**
+ * Rewrites a single plural rule into a canonical form. See
+ * `normalizeRuleSet()` for details.
+ * @param rule The rule to normalize.
+ * @return The normalized rule.
+ */
+export function normalizeRule(rule: PluralRule): PluralRule {
+  return {
+    kind: 'PluralRule',
+    condition: normalizeCondition(rule.condition),
+    samples: rule.samples && normalizeSamples(rule.samples),
+  };
+}
+
+function normalizeCondition(node: Condition): Condition {
+  const alternatives: Alternative[] = [];
+  const seen = new Set<string>();
+  for (const relations of collectAlternatives(node, [])) {
+    const key = relations.map(getRelationKey).join(' and ');
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    alternatives.push(
+      relations.length === 1
+        ? relations[0]
+        : { kind: 'AndCondition', relations }
+    );
+  }
+  return alternatives.length === 1
+    ? alternatives[0]
+    : { kind: 'OrCondition', alternatives };
+}
+
+/**
+ * Collects the alternatives of a condition, each as a list of normalized,
+ * unique relations.
+ */
+function collectAlternatives(
+  node: Condition,
+  alternatives: Relation[][]
+): Relation[][] {
+  switch (node.kind) {
+    case 'OrCondition':
+      for (const alt of node.alternatives) {
+        collectAlternatives(alt, alternatives);
+      }
+      break;
+    case 'AndCondition': {
+      const relations: Relation[] = [];
+      const seen = new Set<string>();
+      for (const rel of node.relations) {
+        const normalized = normalizeRelation(rel);
+        const key = getRelationKey(normalized);
+        if (!seen.has(key)) {
+          seen.add(key);
+          relations.push(normalized);
+        }
+      }
+      alternatives.push(relations);
+      break;
+    }
+    case 'Relation':
+      alternatives.push([normalizeRelation(node)]);
+      break;
+  }
+  return alternatives;
+}
+
+function normalizeRelation(node: Relation): Relation {
+  // Only n can have a fraction, so for other operands `within` is the same as
+  // `in`. Values and single-value ranges never match a fraction either way.
+  const within =
+    node.within &&
+    node.expr.operand === 'n' &&
+    node.ranges.some(range =>
+      range.kind === 'Range' && range.start.value < range.end.value
+    );
+  return {
+    kind: 'Relation',
+    expr: normalizeExpr(node.expr),
+    ranges: normalizeRanges(node.ranges, within),
+    negated: node.negated,
+    within,
+  };
+}
+
+function normalizeExpr(node: Expr): Expr {
+  return {
+    kind: 'Expr',
+    operand: node.operand,
+    modDivisor: node.modDivisor && normalizeValue(node.modDivisor),
+  };
+}
+
+function normalizeRanges(ranges: RangeList, within: boolean): RangeList {
+  const intervals: Interval[] = [];
+  for (const range of ranges) {
+    const interval = range.kind === 'Range'
+      ? { start: range.start, end: range.end }
+      : { start: range, end: range };
+    // Reversed ranges are empty.
+    if (interval.start.value <= interval.end.value) {
+      intervals.push(interval);
+    }
+  }
+  if (intervals.length === 0) {
+    // A range list cannot be empty, so keep a single empty range.
+    const range = ranges[0];
+    return [
+      range.kind === 'Range'
+        ? {
+          kind: 'Range',
+          start: normalizeValue(range.start),
+          end: normalizeValue(range.end),
+        }
+        : normalizeValue(range),
+    ];
+  }
+
+  intervals.sort((a, b) => a.start.value - b.start.value);
+  const merged: Interval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    // Without `within`, ranges contain only integers, so ranges that are next
+    // to each other can be merged too.
+    if (
+      last &&
+      interval.start.value <= last.end.value + (within ? 0 : 1)
+    ) {
+      if (interval.end.value > last.end.value) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  const result: (Range | Value)[] = [];
+  for (const { start, end } of merged) {
+    if (start.value === end.value) {
+      result.push(normalizeValue(start));
+    } else if (!within && start.value + 1 === end.value) {
+      // As in CLDR, two integers are written as values: `i = 0,1`.
+      result.push(normalizeValue(start), normalizeValue(end));
+    } else {
+      result.push({
+        kind: 'Range',
+        start: normalizeValue(start),
+        end: normalizeValue(end),
+      });
+    }
+  }
+  return result;
+}
+
+function normalizeValue(node: Value): Value {
+  return { kind: 'Value', value: node.value, source: node.source };
+}
+
+function normalizeSamples(node: Samples): Samples {
+  return {
+    kind: 'Samples',
+    integer: node.integer && normalizeSampleList(node.integer),
+    decimal: node.decimal && normalizeSampleList(node.decimal),
+  };
+}
+
+function normalizeSampleList(node: SampleList): SampleList {
+  return {
+    kind: 'SampleList',
+    ranges: node.ranges.map((range): SampleRange | SampleValue =>
+      range.kind === 'SampleRange'
+        ? {
+          kind: 'SampleRange',
+          start: normalizeSampleValue(range.start),
+          end: normalizeSampleValue(range.end),
+        }
+        : normalizeSampleValue(range)
+    ),
+    infinite: node.infinite,
+  };
+}
+
+function normalizeSampleValue(node: SampleValue): SampleValue {
+  return { kind: 'SampleValue', value: node.value, source: node.source };
+}
+
+/**
+ * Gets a string that identifies a normalized relation.
+ */
+function getRelationKey(node: Relation): string {
+  const { expr } = node;
+  const ranges = node.ranges
+    .map(range =>
+      range.kind === 'Range'
+        ? `${range.start.value}..${range.end.value}`
+        : String(range.value)
+    )
+    .join(',');
+  const operator = `${node.negated ? '!' : ''}${node.within ? 'within' : '='}`;
+  const mod = expr.modDivisor ? ` % ${expr.modDivisor.value}` : '';
+  return `${expr.operand}${mod} ${operator} ${ranges}`;
+}
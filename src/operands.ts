@@ -1,12 +1,20 @@
+import { Operand, Value } from './types';
+
+/**
+ * The plural operands of a number, as defined by CLDR. An object of this type
+ * can be passed to `getPluralCategory()` and friends in place of a number.
+ */
 export interface Operands {
   /**
-   * The absolute value of the source number.
+   * The absolute value of the source number. If the source number has an
+   * exponent, this is the value with the exponent applied. This value may be
+   * imprecise; relations on `n` are evaluated exactly from `i` and `t`.
    */
   readonly n: number;
   /**
    * The integer digits of `n`.
    */
-  readonly i: number;
+  readonly i: Integer;
   /**
    * The number of visible fraction digits in `n`, *with* trailing zeroes.
    */
@@ -18,11 +26,11 @@ export interface Operands {
   /**
    * The visible fraction digits in `n`, *with* trailing zeroes.
    */
-  readonly f: number;
+  readonly f: Integer;
   /**
    * The visible fraction digits in `n`, *without* trailing zeroes.
    */
-  readonly t: number;
+  readonly t: Integer;
   /**
    * The decimal exponent value: exponent of the power of 10 used in compact
    * decimal formatting.
@@ -34,63 +42,353 @@ export interface Operands {
   readonly e: number,
 }
 
-export function getOperands(input: number | string): Operands {
+/**
+ * An exact integer operand value. Values up to `Number.MAX_SAFE_INTEGER` are
+ * numbers; larger values are bigints.
+ */
+export type Integer = number | bigint;
+
+/**
+ * A number whose plural category can be determined: a number, a string or a
+ * bigint, or the precomputed operands of a number.
+ */
+export type PluralInput = number | string | bigint | Operands;
+
+/**
+ * Options that determine how a number is formatted before its operands are
+ * computed. The options have the same meaning as the corresponding options of
+ * `Intl.NumberFormat`.
+ */
+export interface NumberFormatSpec {
+  readonly minimumFractionDigits?: number;
+  readonly maximumFractionDigits?: number;
+  readonly minimumSignificantDigits?: number;
+  readonly maximumSignificantDigits?: number;
+  /**
+   * The notation. In compact notation, the compact exponent of the formatted
+   * number becomes the `c` and `e` operands, so that 1234 formatted as "1.2K"
+   * has the operands n = 1200, i = 1200 and c = 3. Defaults to `'standard'`.
+   */
+  readonly notation?: 'standard' | 'compact';
+}
+
+/**
+ * Computes the plural operands of a number.
+ * @param input The number to get the operands of. If the value is an operands
+ *        object, it's returned as is, apart from bigint values being converted
+ *        to numbers where they fit.
+ * @param format If specified, the number is formatted by `Intl.NumberFormat`
+ *        with these options, and the operands are computed from the formatted
+ *        number. This ensures the operands match the digits that are shown to
+ *        the user. Ignored if `input` is an operands object.
+ * @return The operands of the number.
+ */
+export function getOperands(
+  input: PluralInput,
+  format?: NumberFormatSpec
+): Operands {
+  return readOperands(input, format, true, true);
+}
+
+/**
+ * A function that reads operands from an input number. Operands that were not
+ * requested when the reader was created are always 0, unless the input is an
+ * operands object.
+ */
+export type OperandReader = (
+  input: PluralInput,
+  format?: NumberFormatSpec
+) => Operands;
+
+/**
+ * Creates a function that reads only the specified operands from its input.
+ * Operands that are never read are never computed.
+ * @param operands The operands that the reader must compute.
+ * @return A function that reads operands from an input number.
+ */
+export function createOperandReader(operands: Iterable<Operand>): OperandReader {
+  let needsFraction = false;
+  let needsExponent = false;
+  for (const operand of operands) {
+    switch (operand) {
+      // Relations on n depend on whether the fraction is zero, which is
+      // determined by t.
+      case 'n':
+      case 'v':
+      case 'w':
+      case 'f':
+      case 't':
+        needsFraction = true;
+        break;
+      case 'c':
+      case 'e':
+        needsExponent = true;
+        break;
+    }
+  }
+  return (input, format) =>
+    readOperands(input, format, needsFraction, needsExponent);
+}
+
+/**
+ * Computes `value % divisor` for an integer operand value. If the divisor is
+ * 0, the result is NaN, which is not equal to any value.
+ */
+export function modulo(value: Integer, divisor: Integer): Integer {
+  if (typeof divisor === 'bigint') {
+    // A bigint divisor is larger than any number operand.
+    return typeof value === 'bigint' ? value % divisor : value;
+  }
+  if (typeof value === 'bigint') {
+    return divisor === 0 ? NaN : value % BigInt(divisor);
+  }
+  return value % divisor;
+}
+
+/**
+ * Gets the exact value of a number in a rule. The parsed value of a number
+ * past `Number.MAX_SAFE_INTEGER` is rounded, so such numbers are read from
+ * their source text instead, and returned as bigints.
+ */
+export function getExactValue(node: Value): Integer {
+  const { value, source } = node;
+  if (Number.isSafeInteger(value) || !/^\d+$/.test(source)) {
+    return value;
+  }
+  return toInteger(BigInt(source));
+}
+
+function readOperands(
+  input: PluralInput,
+  format: NumberFormatSpec | undefined,
+  needsFraction: boolean,
+  needsExponent: boolean
+): Operands {
+  if (typeof input === 'object') {
+    return normalizeOperands(input);
+  }
+  if (format) {
+    input = formatDecimal(input, format);
+  }
+
+  if (
+    typeof input === 'number' &&
+    Number.isInteger(input) &&
+    Math.abs(input) < 1e21
+  ) {
+    // The String() form of the number has neither fraction digits nor an
+    // exponent, so we can skip all string manipulation. This is by far the
+    // most common case.
+    const n = Math.abs(input);
+    return {
+      n,
+      i: n <= Number.MAX_SAFE_INTEGER ? n : BigInt(n),
+      v: 0, w: 0, f: 0, t: 0, c: 0, e: 0,
+    };
+  }
+  if (typeof input === 'bigint') {
+    const i = input < 0 ? -input : input;
+    return {
+      n: Number(i),
+      i: toInteger(i),
+      v: 0, w: 0, f: 0, t: 0, c: 0, e: 0,
+    };
+  }
+
   // CLDR plural operands rely as much on the textual representation as they
-  // do on the numeric value. If the input is a string, we retain it so we
-  // can manipulate it.
-  let n: number;
-  let s: string;
-
-  if (typeof input === 'number') {
-    n = Math.abs(input);
-    s = String(input);
-  } else {
-    n = Math.abs(parseFloat(input));
-    s = input;
+  // do on the numeric value. The digits are taken from the source text, so
+  // that they are exact regardless of length.
+  const n = getAbsoluteValue(input);
+  const { integer, fraction, exponent } = parseDecimal(
+    typeof input === 'number' ? String(input) : input
+  );
+
+  let v = 0;
+  let w = 0;
+  let f: Integer = 0;
+  let t: Integer = 0;
+  if (needsFraction) {
+    const trimmed = fraction.replace(/0+$/, '');
+    v = fraction.length;
+    w = trimmed.length;
+    f = parseInteger(fraction);
+    t = parseInteger(trimmed);
+  }
+
+  // Only a string can be written in compact form; the exponent in the
+  // String() form of a large number, such as 1e+21, is not a compact exponent.
+  const c = needsExponent && typeof input === 'string' ? exponent : 0;
+
+  return { n, i: parseInteger(integer), v, w, f, t, c, e: c };
+}
+
+function normalizeOperands(op: Operands): Operands {
+  // Evaluation relies on bigints never being used for small values.
+  return {
+    n: op.n,
+    i: normalizeInteger(op.i),
+    v: op.v,
+    w: op.w,
+    f: normalizeInteger(op.f),
+    t: normalizeInteger(op.t),
+    c: op.c,
+    e: op.e,
+  };
+}
+
+function normalizeInteger(value: Integer): Integer {
+  return typeof value === 'bigint' ? toInteger(value) : value;
+}
+
+// Compact exponents of the short compact notation in English.
+const CompactExponents: ReadonlyMap<string, number> = new Map([
+  ['K', 3],
+  ['M', 6],
+  ['B', 9],
+  ['T', 12],
+]);
+
+// Formatters are expensive to create, so we reuse them for the same spec.
+const formatters = new WeakMap<NumberFormatSpec, Intl.NumberFormat>();
+
+/**
+ * Formats a number with `Intl.NumberFormat`, and returns the formatted digits
+ * as a number string that the rest of this module understands, such as
+ * '1.20c3'.
+ */
+function formatDecimal(
+  input: number | string | bigint,
+  format: NumberFormatSpec
+): string {
+  let formatter = formatters.get(format);
+  if (!formatter) {
+    const {
+      minimumFractionDigits,
+      maximumFractionDigits,
+      minimumSignificantDigits,
+      maximumSignificantDigits,
+      notation = 'standard',
+    } = format;
+    // English is used for its ASCII digits and well-known compact suffixes.
+    // The locale does not affect which digits are shown.
+    formatter = new Intl.NumberFormat('en', {
+      minimumFractionDigits,
+      maximumFractionDigits,
+      minimumSignificantDigits,
+      maximumSignificantDigits,
+      notation,
+      compactDisplay: 'short',
+      useGrouping: false,
+    });
+    formatters.set(format, formatter);
+  }
+
+  // Intl.NumberFormat formats decimal strings exactly, but does not understand
+  // the 'c' exponent separator.
+  const value = typeof input === 'string' ? input.replace('c', 'e') : input;
+
+  let integer = '';
+  let fraction = '';
+  let exponent = 0;
+  // The TypeScript definitions do not allow strings yet.
+  for (const part of formatter.formatToParts(value as number | bigint)) {
+    switch (part.type) {
+      case 'integer':
+        integer += part.value;
+        break;
+      case 'fraction':
+        fraction = part.value;
+        break;
+      case 'compact': {
+        const compactExponent = CompactExponents.get(part.value);
+        if (compactExponent === undefined) {
+          throw new Error(`Unknown compact suffix: ${part.value}`);
+        }
+        exponent = compactExponent;
+        break;
+      }
+      case 'nan':
+      case 'infinity':
+        throw new Error(`Number is not finite: ${input}`);
+    }
   }
 
+  let result = fraction ? `${integer}.${fraction}` : integer;
+  if (exponent > 0) {
+    result += `c${exponent}`;
+  }
+  return result;
+}
+
+function parseInteger(digits: string): Integer {
+  // Up to 15 digits always fit in a number.
+  return digits.length <= 15 ? +digits : toInteger(BigInt(digits));
+}
+
+function toInteger(value: bigint): Integer {
+  return value <= Number.MAX_SAFE_INTEGER ? Number(value) : value;
+}
+
+function getAbsoluteValue(input: number | string): number {
+  // CLDR writes compact numbers with 'c' before the exponent, as in 1.2c3,
+  // which parseFloat() does not understand.
+  const n = Math.abs(
+    typeof input === 'number' ? input : parseFloat(input.replace('c', 'e'))
+  );
   if (!Number.isFinite(n)) {
     // NaN, Infinity and -Infinity are not permitted.
     throw new Error(`Number is not finite: ${input}`);
   }
+  return n;
+}
 
-  // n and i are by far the most common operands, so precalculate them.
-  // Everything else is calculated on demand.
-  return {
-    n,
-    i: n | 0,
-    get v(): number {
-      return getFraction(s).length;
-    },
-    get w(): number {
-      return getFraction(s).replace(/0+$/, '').length;
-    },
-    get f(): number {
-      return +getFraction(s);
-    },
-    get t(): number {
-      return +getFraction(s).replace(/0+$/, '');
-    },
-    get c(): number {
-      return getExponent(s);
-    },
-    get e(): number {
-      return getExponent(s);
-    },
-  };
+/**
+ * The digits of a number, with the exponent applied.
+ */
+export interface Decimal {
+  /**
+   * The integer digits.
+   */
+  readonly integer: string;
+  /**
+   * The visible fraction digits, with trailing zeros.
+   */
+  readonly fraction: string;
+  /**
+   * The compact decimal exponent, or 0 if the exponent is absent or negative.
+   */
+  readonly exponent: number;
 }
 
 // If the number has passed parseFloat(), we can probably assume it's
-// reasonably formatted, so simple regexes are fine.
-const FractionPattern = /\.(\d+)/;
-const ExponentPattern = /[eE][+\-]?(\d+)/;
+// reasonably formatted, so a simple regex is fine. 'c' and 'e' both introduce
+// the exponent.
+const DecimalPattern = /^\s*[+\-]?(\d*)(?:\.(\d*))?(?:[ceE]([+\-]?\d+))?/;
 
-function getFraction(source: string): string {
-  const m = source.match(FractionPattern);
-  return m ? m[1] : '';
-}
+/**
+ * Splits the source text of a number into its digits, as defined by TR35.
+ * The decimal point is moved by the exponent, so that 1.2c3 has the integer
+ * digits 1200 and no fraction digits, while 1.20050c3 has the integer digits
+ * 1200 and the fraction digits 50. A negative exponent, which only occurs in
+ * the `String()` form of small numbers such as 1e-7, moves the decimal point
+ * to the left, but is not a compact decimal exponent.
+ */
+export function parseDecimal(source: string): Decimal {
+  // Every part of the pattern is optional, so it always matches.
+  const m = DecimalPattern.exec(source)!;
+  let integer = m[1];
+  let fraction = m[2] || '';
+  const exponent = m[3] ? +m[3] : 0;
+
+  if (exponent > 0) {
+    fraction = fraction.padEnd(exponent, '0');
+    integer += fraction.slice(0, exponent);
+    fraction = fraction.slice(exponent);
+  } else if (exponent < 0) {
+    integer = integer.padStart(1 - exponent, '0');
+    fraction = integer.slice(exponent) + fraction;
+    integer = integer.slice(0, exponent);
+  }
 
-function getExponent(source: string): number {
-  const m = source.match(ExponentPattern);
-  return m ? +m[1] : 0;
+  return { integer, fraction, exponent: Math.max(exponent, 0) };
 }
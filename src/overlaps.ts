@@ -0,0 +1,77 @@
+import { testCondition } from './evaluate';
+import { findRepresentatives } from './solver';
+import { PluralRuleSet, PluralCategory } from './types';
+
+/**
+ * A pair of plural categories whose rules match some of the same numbers.
+ */
+export interface CategoryOverlap {
+  /**
+   * The overlapping categories, in rule set order. Only the first of these is
+   * ever returned by `getPluralCategory()` for the numbers in `witnesses`.
+   */
+  readonly categories: readonly [PluralCategory, PluralCategory];
+  /**
+   * Numbers that match both categories, simplest first. Each number is written
+   * with its visible fraction digits, and can be passed to
+   * `getPluralCategory()`.
+   */
+  readonly witnesses: readonly string[];
+}
+
+/**
+ * Finds plural categories whose rules overlap, that is, which match some of
+ * the same numbers. By CLDR's specification, the categories in a rule set must
+ * be mutually exclusive.
+ *
+ * Every pair of categories is checked. Numbers are grouped by how they affect
+ * each relation in the two rules, so the search covers every number without
+ * enumerating them.
+ * @param rules The rule set to analyze.
+ * @param maxWitnesses The maximum number of witnesses to return for each pair
+ *        of overlapping categories.
+ * @return The overlapping pairs of categories, in rule set order.
+ * @throws {RangeError} The rules are too complex to analyze exactly, because
+ *         their constants or the least common multiple of their modulo
+ *         divisors are too large.
+ */
+export function analyzeOverlaps(
+  rules: PluralRuleSet,
+  maxWitnesses = 3
+): CategoryOverlap[] {
+  const entries = Array.from(rules.rules);
+  const overlaps: CategoryOverlap[] = [];
+
+  for (let a = 0; a < entries.length; a++) {
+    const [firstCategory, first] = entries[a];
+    for (let b = a + 1; b < entries.length; b++) {
+      const [secondCategory, second] = entries[b];
+
+      const representatives = findRepresentatives([
+        first.condition,
+        second.condition,
+      ]);
+      const witnesses: string[] = [];
+      for (const { operands, source } of representatives) {
+        if (
+          testCondition(first.condition, operands) &&
+          testCondition(second.condition, operands)
+        ) {
+          witnesses.push(source);
+          if (witnesses.length === maxWitnesses) {
+            break;
+          }
+        }
+      }
+
+      if (witnesses.length > 0) {
+        overlaps.push({
+          categories: [firstCategory, secondCategory],
+          witnesses,
+        });
+      }
+    }
+  }
+
+  return overlaps;
+}
@@ -1,9 +1,74 @@
+/**
+ * Details about the location and cause of a syntax error.
+ */
+export interface ParseErrorDetails {
+  /**
+   * The zero-based offset of the error in the source text, in UTF-16 code
+   * units.
+   */
+  readonly offset: number;
+  /**
+   * The one-based line number of the error.
+   */
+  readonly line: number;
+  /**
+   * The one-based column number of the error, in UTF-16 code units.
+   */
+  readonly column: number;
+  /**
+   * The source text of the offending token, or null if the error occurred at
+   * the end of the input.
+   */
+  readonly token: string | null;
+  /**
+   * The kinds of tokens that would have been valid instead of the offending
+   * token. Keywords, operands and operators are given as they appear in the
+   * source (e.g. 'and', 'n', '..'); other tokens are 'PluralCategory', 'Value'
+   * and 'EOF'. If the error was not caused by an unexpected token, such as a
+   * duplicate plural category, this is empty.
+   */
+  readonly expected: readonly string[];
+}
+
 /**
  * An error that occurs during parsing; a syntax error.
+ *
+ * Errors thrown by the parser always have location details. The properties are
+ * undefined only if the error was constructed without them.
  */
 export default class ParseError extends Error {
-  public constructor(message = 'Syntax error') {
+  /**
+   * The zero-based offset of the error in the source text.
+   */
+  public readonly offset?: number;
+  /**
+   * The one-based line number of the error.
+   */
+  public readonly line?: number;
+  /**
+   * The one-based column number of the error.
+   */
+  public readonly column?: number;
+  /**
+   * The source text of the offending token, or null if the error occurred at
+   * the end of the input.
+   */
+  public readonly token?: string | null;
+  /**
+   * The kinds of tokens that would have been valid instead of the offending
+   * token. See `ParseErrorDetails` for details.
+   */
+  public readonly expected?: readonly string[];
+
+  public constructor(message = 'Syntax error', details?: ParseErrorDetails) {
     super(message);
     this.name = 'ParseError';
+    if (details) {
+      this.offset = details.offset;
+      this.line = details.line;
+      this.column = details.column;
+      this.token = details.token;
+      this.expected = details.expected;
+    }
   }
 }
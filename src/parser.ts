@@ -1,5 +1,5 @@
-import ParseError from './parse-error';
 import lex, { Lexer, Token, isKeywordToken, isOperandToken } from './lexer';
+import ParseError from './parse-error';
 import {
   PluralRuleSet,
   PluralRule,
@@ -15,6 +15,8 @@ import {
   SampleValue,
   SampleRange,
   PluralCategory,
+  Operand,
+  SourceSpan,
 } from './types';
 
 /*
@@ -49,7 +51,77 @@ import {
  * In this parser, we use 'keyword' to refer to the operator words - 'and',
  * 'or', 'not', 'is', 'within', and so on. What the official grammar calls a
  * keyword, we refer to as a 'plural category'.
+ *
+ * Syntax errors are always reported at a token that has not been consumed yet.
+ * When recovering from errors, the parser can then resynchronize at the
+ * offending token itself, if it happens to be e.g. a ';'.
+ */
+
+/**
+ * Options that control the parser.
+ */
+export interface ParseOptions {
+  /**
+   * If true, every parse node gets a `span` property with its location in the
+   * source text. Defaults to false.
+   */
+  readonly locations?: boolean;
+  /**
+   * If true, only the standard plural categories are allowed: 'zero', 'one',
+   * 'two', 'few', 'many' and 'other'. Only applies to `parseRuleSet()`.
+   * Defaults to false.
+   */
+  readonly standardCategories?: boolean;
+  /**
+   * If true, categories must be in canonical order: 'zero', 'one', 'two',
+   * 'few', 'many', then non-standard categories, then 'other'. Only applies
+   * to `parseRuleSet()`. Defaults to false.
+   */
+  readonly canonicalOrder?: boolean;
+  /**
+   * If true, the rule set must contain 'other'. Only applies to
+   * `parseRuleSet()`. Defaults to false.
+   */
+  readonly requireOther?: boolean;
+  /**
+   * If true, legacy syntax is rejected: the operators `is`, `in`, `not in`
+   * and `within`, `mod` instead of `%`, and the operand `e`, which is a
+   * deprecated synonym for `c`. Defaults to false.
+   */
+  readonly modernSyntax?: boolean;
+  /**
+   * If `'required'`, every rule must have samples. If `'forbidden'`, no rule
+   * may have samples. By default, samples are optional.
+   */
+  readonly samples?: 'required' | 'forbidden';
+}
+
+/**
+ * Options that make `parseRuleSet()` recover from syntax errors.
+ */
+export interface RecoverOptions extends ParseOptions {
+  /**
+   * If true, the parser records syntax errors instead of throwing them, and
+   * returns every syntax error it finds along with a partial rule set.
+   */
+  readonly recover: true;
+}
+
+/**
+ * The result of parsing a rule set with the `recover` option.
  */
+export interface RecoveredRuleSet {
+  /**
+   * The rules that were parsed without errors. A rule that contains a syntax
+   * error is left out. If the 'other' rule contains an error, `other` is null.
+   */
+  readonly ruleSet: PluralRuleSet;
+  /**
+   * The syntax errors that were found, in source order. Empty if the rule set
+   * is valid.
+   */
+  readonly diagnostics: ParseError[];
+}
 
 /**
  * Parses a plural rule set, which contains plural categories, their
@@ -63,11 +135,33 @@ import {
  * If sample values are included, the parser does not verify them.
  *
  * The exact syntax of plural rules is beyond the scope of this comment.
+ *
+ * With the `recover` option, the parser does not stop at the first syntax
+ * error. Instead, it skips ahead to the next ';' (or the next 'and' or 'or',
+ * inside a condition) and keeps going, so that every error can be reported in
+ * one pass. In this mode, the parser never throws.
  * @param source The source string to parse.
- * @return The parsed plural rule set.
+ * @param options Options that control the parser.
+ * @return The parsed plural rule set, or if the `recover` option is set, the
+ *         partial rule set and all syntax errors.
  * @throws {ParseError} A syntax error was encountered.
  */
-export function parseRuleSet(source: string): PluralRuleSet {
+export function parseRuleSet(
+  source: string,
+  options: RecoverOptions
+): RecoveredRuleSet;
+export function parseRuleSet(
+  source: string,
+  options?: ParseOptions
+): PluralRuleSet;
+export function parseRuleSet(
+  source: string,
+  options: ParseOptions & { readonly recover?: boolean }
+): PluralRuleSet | RecoveredRuleSet;
+export function parseRuleSet(
+  source: string,
+  options: ParseOptions & { readonly recover?: boolean } = {}
+): PluralRuleSet | RecoveredRuleSet {
  /*
   * This parses a set of rules:
   *
@@ -79,9 +173,14 @@ export function parseRuleSet(source: string): PluralRuleSet {
   *
   * Note: 'keyword' here means plural category.
   */
-  const lexer = lex(source);
+  const diagnostics: ParseError[] | null = options.recover ? [] : null;
+  const lexer = lex(source, options.locations, diagnostics);
+  const start = lexer.peek().start;
 
   const rules = new Map<PluralCategory, PluralRule>();
+  // The canonical position of the last category, for `canonicalOrder`.
+  let lastOrder = 0;
+  let lastCategory: PluralCategory | null = null;
 
   // Note: The way the grammar is laid out, 'samples' is totally optional, and
   // 'other' can only have samples. As a result, a rule set like this:
@@ -95,47 +194,115 @@ export function parseRuleSet(source: string): PluralRuleSet {
   // must not matter.
   let other: Samples | null = null;
   // Duplicated plural categories are not permitted, so we must keep track of
-  // whether we have seen 'other', even if it has no samples.
-  let otherSeen = false;
+  // every category we have seen, even 'other' without samples, and even rules
+  // that were left out due to errors.
+  const seen = new Set<PluralCategory>();
 
   if (lexer.peek().kind !== 'EOF') {
     do {
-      // The official grammar allows any sequence of [a-z]+ as the plural
-      // category name, so we must follow suit. The only name that is special
-      // is 'other', which cannot have a condition.
-      let category: string;
-      const token = lexer.next();
-      if (token.kind === 'PluralCategory') {
-        category = token.name;
-      } else if (isKeywordToken(token) || isOperandToken(token)) {
-        category = token.kind;
-      } else {
-        return expected(`a plural category`, token);
-      }
+      // When recovering, a rule that contains errors is left out of the rule
+      // set, but we still read as much of it as we can to find more errors.
+      const errorCount = diagnostics ? diagnostics.length : 0;
+      try {
+        // The official grammar allows any sequence of [a-z]+ as the plural
+        // category name, so we must follow suit. The only name that is special
+        // is 'other', which cannot have a condition.
+        let category: string;
+        const token = lexer.peek();
+        if (token.kind === 'PluralCategory') {
+          category = token.name;
+        } else if (isKeywordToken(token) || isOperandToken(token)) {
+          category = token.kind;
+        } else {
+          return expected(
+            lexer,
+            `a plural category`,
+            ['PluralCategory'],
+            token
+          );
+        }
+        lexer.next();
+
+        if (!lexer.accept(':')) {
+          return expected(
+            lexer,
+            `':' after plural category`,
+            [':'],
+            lexer.peek()
+          );
+        }
 
-      if (!lexer.accept(':')) {
-        return expected(`':' after plural category`, lexer.peek());
-      }
+        if (seen.has(category)) {
+          report(
+            diagnostics,
+            lexer.error(`Category '${category}' occurs more than once`, token)
+          );
+        }
+        seen.add(category);
+
+        if (
+          options.standardCategories &&
+          !StandardCategories.includes(category)
+        ) {
+          report(
+            diagnostics,
+            lexer.error(`Non-standard plural category '${category}'`, token)
+          );
+        }
+        if (options.canonicalOrder) {
+          const order = getCanonicalOrder(category);
+          if (order < lastOrder) {
+            report(
+              diagnostics,
+              lexer.error(
+                `Category '${category}' must come before '${lastCategory}'`,
+                token
+              )
+            );
+          } else {
+            lastOrder = order;
+            lastCategory = category;
+          }
+        }
 
-      if (category === 'other') {
-        if (otherSeen) {
-          throw new ParseError(`Category 'other' occurs more than once`);
+        if (category === 'other') {
+          const samples = parseSamples(lexer, options);
+          expectRuleEnd(lexer);
+          if (!diagnostics || diagnostics.length === errorCount) {
+            other = samples;
+          }
+        } else {
+          const rule = diagnostics
+            ? recoverRuleBody(lexer, diagnostics, options)
+            : parseRuleBody(lexer, options);
+          expectRuleEnd(lexer);
+          if (rule && (!diagnostics || diagnostics.length === errorCount)) {
+            rules.set(category, rule);
+          }
         }
-        otherSeen = true;
-        other = parseSamples(lexer);
-      } else {
-        if (rules.has(category)) {
-          throw new ParseError(`Category '${category}' occurs more than once`);
+      } catch (e) {
+        if (!diagnostics || !(e instanceof ParseError)) {
+          throw e;
         }
-        const rule = parseRuleBody(lexer);
-        rules.set(category, rule);
+        diagnostics.push(e);
+        skipUntil(lexer, RuleEnd);
       }
     } while (lexer.accept(';'));
   }
 
-  expectEOF(lexer);
+  if (options.requireOther && !seen.has('other')) {
+    report(
+      diagnostics,
+      lexer.error(`Missing category 'other'`, lexer.peek(), ['PluralCategory'])
+    );
+  }
 
-  return { kind: 'PluralRuleSet', rules, other };
+  const ruleSet = withSpan(
+    { kind: 'PluralRuleSet', rules, other },
+    lexer,
+    start
+  );
+  return diagnostics ? { ruleSet, diagnostics } : ruleSet;
 }
 
 /**
@@ -151,10 +318,14 @@ export function parseRuleSet(source: string): PluralRuleSet {
  * * `n = 0, 1 or n in 11..19`
  * * `n mod 10 not in 0, 4..8 @integer 1, 2, 3, 9, 11, 12, 13, 19, ...`
  * @param source The source string to parse.
+ * @param options Options that control the parser.
  * @return The parsed plural rule.
  * @throws {ParseError} A syntax error was encountered.
  */
-export function parseRule(source: string): PluralRule {
+export function parseRule(
+  source: string,
+  options: ParseOptions = {}
+): PluralRule {
   /*
    * This parses a rule *without* the plural category prefix, which means:
    *
@@ -162,21 +333,89 @@ export function parseRule(source: string): PluralRule {
    *
    * (samples is potentially zero-length)
    */
-  const lexer = lex(source);
-  const rule = parseRuleBody(lexer);
-  expectEOF(lexer);
+  const lexer = lex(source, options.locations);
+  const rule = parseRuleBody(lexer, options);
+  expectEOF(lexer, ['EOF']);
 
   return rule;
 }
 
-function expectEOF(lexer: Lexer) {
-  const token = lexer.next();
+/**
+ * Parses the rule of the 'other' category without the plural category prefix.
+ * The rule consists only of optional sample values. This is for data sources
+ * that store each category's rule separately, such as the CLDR data files.
+ * @param source The source string to parse.
+ * @return The parsed samples, or null if there are none.
+ * @throws {ParseError} A syntax error was encountered.
+ */
+export function parseOtherRule(source: string): Samples | null {
+  const lexer = lex(source);
+  const samples = parseSamples(lexer, {});
+  expectEOF(lexer, ['EOF']);
+  return samples;
+}
+
+function expectEOF(lexer: Lexer, valid: readonly string[]) {
+  const token = lexer.peek();
   if (token.kind !== 'EOF') {
-    expected(`end-of-file`, token);
+    expected(lexer, `end-of-file`, valid, token);
+  }
+}
+
+function expectRuleEnd(lexer: Lexer) {
+  // A rule in a rule set is followed by ';' or the end of the input.
+  if (lexer.peek().kind !== ';') {
+    expectEOF(lexer, RuleEnd);
+  }
+}
+
+/**
+ * Parses a rule body, recording errors in its condition instead of throwing
+ * them. After a bad relation, the parser skips ahead to the next 'and' or 'or'
+ * and carries on, so that errors in later relations are found too. Errors in
+ * the samples are thrown as usual.
+ * @return The parsed rule, or null if its condition contains errors.
+ */
+function recoverRuleBody(
+  lexer: Lexer,
+  diagnostics: ParseError[],
+  options: ParseOptions
+): PluralRule | null {
+  const start = lexer.peek().start;
+  let condition: Condition | null = null;
+  try {
+    condition = parseCondition(lexer, options);
+  } catch (e) {
+    if (!(e instanceof ParseError)) {
+      throw e;
+    }
+    diagnostics.push(e);
+
+    // The rest of the condition is parsed only to find more errors.
+    for (;;) {
+      skipUntil(lexer, RelationEnd);
+      if (!lexer.accept('and') && !lexer.accept('or')) {
+        break;
+      }
+      try {
+        parseCondition(lexer, options);
+        break;
+      } catch (e) {
+        if (!(e instanceof ParseError)) {
+          throw e;
+        }
+        diagnostics.push(e);
+      }
+    }
   }
+
+  const samples = parseSamples(lexer, options);
+  return condition
+    ? withSpan({ kind: 'PluralRule', condition, samples }, lexer, start)
+    : null;
 }
 
-function parseRuleBody(lexer: Lexer): PluralRule {
+function parseRuleBody(lexer: Lexer, options: ParseOptions): PluralRule {
   /*
    * This parses the part of a rule that comes after the plural category prefix,
    * which means:
@@ -185,79 +424,112 @@ function parseRuleBody(lexer: Lexer): PluralRule {
    *
    * (samples is potentially zero-length)
    */
-  const condition = parseCondition(lexer);
-  const samples = parseSamples(lexer);
-  return { kind: 'PluralRule', condition, samples };
+  const start = lexer.peek().start;
+  const condition = parseCondition(lexer, options);
+  const samples = parseSamples(lexer, options);
+  return withSpan({ kind: 'PluralRule', condition, samples }, lexer, start);
 }
 
-function parseCondition(lexer: Lexer): Condition {
+function parseCondition(lexer: Lexer, options: ParseOptions): Condition {
   /*
    * condition = and_condition ('or' and_condition)*
    */
-  const left = parseAndCondition(lexer);
+  const start = lexer.peek().start;
+  const left = parseAndCondition(lexer, options);
 
   if (lexer.peek().kind === 'or') {
     const alternatives = [left];
     while (lexer.accept('or')) {
-      alternatives.push(parseAndCondition(lexer));
+      alternatives.push(parseAndCondition(lexer, options));
     }
-    return { kind: 'OrCondition', alternatives };
+    return withSpan({ kind: 'OrCondition', alternatives }, lexer, start);
   }
 
   return left;
 }
 
-function parseAndCondition(lexer: Lexer): Alternative {
+function parseAndCondition(
+  lexer: Lexer,
+  options: ParseOptions
+): Alternative {
   /*
    * and_condition = relation ('and' relation)*
    */
-  const left = parseRelation(lexer);
+  const start = lexer.peek().start;
+  const left = parseRelation(lexer, options);
 
   if (lexer.peek().kind === 'and') {
     const relations = [left];
     while (lexer.accept('and')) {
-      relations.push(parseRelation(lexer));
+      relations.push(parseRelation(lexer, options));
     }
-    return { kind: 'AndCondition', relations };
+    return withSpan({ kind: 'AndCondition', relations }, lexer, start);
   }
 
   return left;
 }
 
-function parseRelation(lexer: Lexer): Relation {
+function parseRelation(lexer: Lexer, options: ParseOptions): Relation {
   /*
    * relation        = is_relation | in_relation | within_relation
    * is_relation     = expr 'is' ('not')? value
    * in_relation     = expr (('not')? 'in' | '=' | '!=') range_list
    * within_relation = expr ('not')? 'within' range_list
    */
-  const expr = parseExpr(lexer);
+  const start = lexer.peek().start;
+  const expr = parseExpr(lexer, options);
 
-  // We can safely consume one token after the expression; there's
-  // no relation that is just an expression.
-  let token = lexer.next();
+  let token = lexer.peek();
   let negated = false;
 
+  if (
+    options.modernSyntax &&
+    (token.kind === 'is' ||
+      token.kind === 'in' ||
+      token.kind === 'not' ||
+      token.kind === 'within')
+  ) {
+    return legacySyntax(
+      lexer,
+      `'${token.kind}'`,
+      `'=' or '!='`,
+      ['=', '!='],
+      token
+    );
+  }
+
   if (token.kind === 'is') {
     // is_relation
+    lexer.next();
     negated = lexer.accept('not');
     const value = expectIntValue(
       lexer,
       negated
         ? `value after 'is not'`
-        : `value or 'not' after 'is'`
+        : `value or 'not' after 'is'`,
+      negated ? ['Value'] : ['Value', 'not']
+    );
+    return withSpan(
+      { kind: 'Relation', expr, negated, ranges: [value], within: false },
+      lexer,
+      start
     );
-    return { kind: 'Relation', expr, negated, ranges: [value], within: false };
   }
 
   let within = false;
   if (token.kind === 'not') {
     negated = true;
-    token = lexer.next();
+    lexer.next();
+    token = lexer.peek();
 
     // 'not' must be followed by 'in' or 'within', never '=' or '!='.
     if (token.kind !== 'in' && token.kind !== 'within') {
-      return expected(`'in' or 'within' after 'not'`, token);
+      return expected(
+        lexer,
+        `'in' or 'within' after 'not'`,
+        ['in', 'within'],
+        token
+      );
     }
     within = token.kind === 'within';
   } else if (token.kind === '!=') {
@@ -270,29 +542,55 @@ function parseRelation(lexer: Lexer): Relation {
     // written as `i in 1..3` or `i = 1..3`.
     within = true;
   } else if (token.kind !== 'in' && token.kind !== '=') {
-    return expected(`'=', '!=', 'is', 'in', 'within' or 'not'`, token);
+    return expected(
+      lexer,
+      `'=', '!=', 'is', 'in', 'within' or 'not'`,
+      ['=', '!=', 'is', 'in', 'within', 'not'],
+      token
+    );
   }
+  lexer.next();
 
   const ranges = parseRangeList(lexer);
-  return { kind: 'Relation', expr, ranges, negated, within };
+  return withSpan(
+    { kind: 'Relation', expr, ranges, negated, within },
+    lexer,
+    start
+  );
 };
 
-function parseExpr(lexer: Lexer): Expr {
+function parseExpr(lexer: Lexer, options: ParseOptions): Expr {
   /*
    * expr    = operand (('mod' | '%') value)?
    * operand = 'n' | 'i' | 'f' | 't' | 'v' | 'w' | 'c' | 'e'
    */
-  const operand = lexer.next();
+  const operand = lexer.peek();
   if (!isOperandToken(operand)) {
-    return expected(`an operand (n, i, f, t, v, w, c, e)`, operand);
+    return expected(
+      lexer,
+      `an operand (n, i, f, t, v, w, c, e)`,
+      Operands,
+      operand
+    );
   }
+  if (options.modernSyntax && operand.kind === 'e') {
+    return legacySyntax(lexer, `operand 'e'`, `'c'`, ['c'], operand);
+  }
+  lexer.next();
 
   let modDivisor: Value | null = null;
+  if (options.modernSyntax && lexer.peek().kind === 'mod') {
+    return legacySyntax(lexer, `'mod'`, `'%'`, ['%'], lexer.peek());
+  }
   if (lexer.accept('mod') || lexer.accept('%')) {
     modDivisor = expectIntValue(lexer, `value after 'mod' or '%'`);
   }
 
-  return { kind: 'Expr', operand: operand.kind, modDivisor };
+  return withSpan(
+    { kind: 'Expr', operand: operand.kind, modDivisor },
+    lexer,
+    operand.start
+  );
 }
 
 function parseRangeList(lexer: Lexer): RangeList {
@@ -302,11 +600,12 @@ function parseRangeList(lexer: Lexer): RangeList {
    */
   const ranges: (Range | Value)[] = [];
   do {
+    const startOffset = lexer.peek().start;
     const start = expectIntValue(lexer, `value or range`);
 
     if (lexer.accept('..')) {
       const end = expectIntValue(lexer, `value after '..'`);
-      ranges.push({ kind: 'Range', start, end });
+      ranges.push(withSpan({ kind: 'Range', start, end }, lexer, startOffset));
     } else {
       ranges.push(start);
     }
@@ -314,26 +613,53 @@ function parseRangeList(lexer: Lexer): RangeList {
   return ranges;
 }
 
-function expectIntValue(lexer: Lexer, message: string): Value {
-  const token = lexer.next();
+function expectIntValue(
+  lexer: Lexer,
+  message: string,
+  valid: readonly string[] = ['Value']
+): Value {
+  const token = lexer.peek();
   if (token.kind !== 'Value') {
-    return expected(message, token);
+    return expected(lexer, message, valid, token);
   }
   if (!token.isInt) {
-    return expected(`an integer value`, token);
+    return expected(lexer, `an integer value`, ['Value'], token);
   }
-  return {
-    kind: 'Value',
-    source: token.source,
-    value: parseInt(token.source, 10),
-  };
+  lexer.next();
+  return withSpan(
+    {
+      kind: 'Value',
+      source: token.source,
+      value: parseInt(token.source, 10),
+    },
+    lexer,
+    token.start
+  );
 }
 
-function parseSamples(lexer: Lexer): Samples | null {
+function parseSamples(
+  lexer: Lexer,
+  options: ParseOptions
+): Samples | null {
   /*
    * samples = ('@integer' sampleList)?
    *           ('@decimal' sampleList)?
    */
+  const token = lexer.peek();
+  const hasSamples = token.kind === '@integer' || token.kind === '@decimal';
+  if (options.samples === 'required' && !hasSamples) {
+    return expected(
+      lexer,
+      `samples ('@integer' or '@decimal')`,
+      ['@integer', '@decimal'],
+      token
+    );
+  }
+  if (options.samples === 'forbidden' && hasSamples) {
+    throw lexer.error(`Samples are not allowed`, token);
+  }
+
+  const start = token.start;
   let integer: SampleList | null = null;
   if (lexer.accept('@integer')) {
     integer = parseSampleList(lexer);
@@ -348,7 +674,7 @@ function parseSamples(lexer: Lexer): Samples | null {
     return null;
   }
 
-  return { kind: 'Samples', integer, decimal };
+  return withSpan({ kind: 'Samples', integer, decimal }, lexer, start);
 }
 
 function parseSampleList(lexer: Lexer): SampleList {
@@ -356,16 +682,21 @@ function parseSampleList(lexer: Lexer): SampleList {
    * sampleList  = sampleRange (',' sampleRange)* (',' ('…'|'...'))?
    * sampleRange = sampleValue ('~' sampleValue)?
    */
+  const listStart = lexer.peek().start;
   const ranges: (SampleValue | SampleRange)[] = [];
   let infinite = false;
 
   do {
-    if (lexer.accept('...')) {
+    const token = lexer.peek();
+    if (token.kind === '...') {
       if (ranges.length === 0) {
-        throw new ParseError(
-          `Expected at least one sample value or range before '...'`
+        throw lexer.error(
+          `Expected at least one sample value or range before '...'`,
+          token,
+          ['Value']
         );
       }
+      lexer.next();
       infinite = true;
       break; // '...' is always last
     }
@@ -373,30 +704,135 @@ function parseSampleList(lexer: Lexer): SampleList {
     const start = expectSampleValue(lexer, `sample value or sample range`);
     if (lexer.accept('~')) {
       const end = expectSampleValue(lexer, `sample value after '~'`);
-      ranges.push({ kind: 'SampleRange', start, end });
+      ranges.push(withSpan(
+        { kind: 'SampleRange', start, end },
+        lexer,
+        token.start
+      ));
     } else {
       ranges.push(start);
     }
   } while (lexer.accept(','));
 
-  return { kind: 'SampleList', ranges, infinite };
+  return withSpan(
+    { kind: 'SampleList', ranges, infinite },
+    lexer,
+    listStart
+  );
 }
 
 function expectSampleValue(lexer: Lexer, message: string): SampleValue {
-  const token = lexer.next();
+  const token = lexer.peek();
   if (token.kind !== 'Value') {
-    return expected(message, token);
+    return expected(lexer, message, ['Value'], token);
   }
-  return {
-    kind: 'SampleValue',
-    source: token.source,
-    value: token.isInt
-      ? parseInt(token.source, 10)
-      : parseFloat(token.source.replace('c', 'e')),
-  };
+  lexer.next();
+  return withSpan(
+    {
+      kind: 'SampleValue',
+      source: token.source,
+      value: token.isInt
+        ? parseInt(token.source, 10)
+        : parseFloat(token.source.replace('c', 'e')),
+    },
+    lexer,
+    token.start
+  );
+}
+
+type ParseNode =
+  | PluralRuleSet
+  | PluralRule
+  | Condition
+  | Expr
+  | Range
+  | Value
+  | Samples
+  | SampleList
+  | SampleRange
+  | SampleValue;
+
+function withSpan<T extends ParseNode>(
+  node: T,
+  lexer: Lexer,
+  start: number
+): T {
+  const span = lexer.spanFrom(start);
+  return span ? { ...node, span } : node;
+}
+
+const Operands: readonly Operand[] = ['n', 'i', 'f', 't', 'v', 'w', 'c', 'e'];
+
+const StandardCategories: readonly PluralCategory[] = [
+  'zero',
+  'one',
+  'two',
+  'few',
+  'many',
+  'other',
+];
+
+/**
+ * Gets the position of a category in canonical order. Non-standard categories
+ * all share the position between 'many' and 'other'.
+ */
+function getCanonicalOrder(category: PluralCategory): number {
+  const index = StandardCategories.indexOf(category);
+  if (index === -1) {
+    return StandardCategories.length - 1;
+  }
+  return index === StandardCategories.length - 1 ? index + 1 : index;
+}
+
+// Tokens at which the parser resynchronizes after an error in a rule or in a
+// relation, respectively.
+const RuleEnd: readonly Token['kind'][] = [';', 'EOF'];
+const RelationEnd: readonly Token['kind'][] = [
+  'and',
+  'or',
+  ';',
+  '@integer',
+  '@decimal',
+  'EOF',
+];
+
+function skipUntil(lexer: Lexer, kinds: readonly Token['kind'][]) {
+  while (!kinds.includes(lexer.peek().kind)) {
+    lexer.next();
+  }
+}
+
+/**
+ * Throws an error, unless errors are being collected, in which case it is
+ * recorded and parsing continues.
+ */
+function report(diagnostics: ParseError[] | null, error: ParseError) {
+  if (!diagnostics) {
+    throw error;
+  }
+  diagnostics.push(error);
+}
+
+function legacySyntax(
+  lexer: Lexer,
+  syntax: string,
+  replacement: string,
+  valid: readonly string[],
+  actual: Token
+): never {
+  throw lexer.error(
+    `Legacy syntax ${syntax} is not allowed; use ${replacement} instead`,
+    actual,
+    valid
+  );
 }
 
-function expected(expected: string, actual: Token): never {
+function expected(
+  lexer: Lexer,
+  expected: string,
+  valid: readonly string[],
+  actual: Token
+): never {
   let actualDescription: string;
   switch (actual.kind) {
     case 'PluralCategory':
@@ -412,5 +848,9 @@ function expected(expected: string, actual: Token): never {
       actualDescription = `'${actual.kind}'`;
       break;
   }
-  throw new ParseError(`Expected ${expected}; got ${actualDescription}`);
+  throw lexer.error(
+    `Expected ${expected}; got ${actualDescription}`,
+    actual,
+    valid
+  );
 }
@@ -0,0 +1,279 @@
+import { compileRuleSet, CompiledRuleSet } from './compile';
+import { PluralInput, NumberFormatSpec } from './operands';
+import { PluralRange, lookupPluralRange } from './ranges';
+import { PluralRuleSet, PluralRuleType, PluralCategory } from './types';
+
+/**
+ * Plural rules and plural range data for multiple locales, such as the data
+ * returned by `loadCldrJson()` and `loadPluralRangesJson()`.
+ */
+export interface PluralRulesData {
+  /**
+   * Cardinal rule sets, keyed by locale.
+   */
+  readonly cardinal?: ReadonlyMap<string, PluralRuleSet>;
+  /**
+   * Ordinal rule sets, keyed by locale.
+   */
+  readonly ordinal?: ReadonlyMap<string, PluralRuleSet>;
+  /**
+   * Plural range data, keyed by locale. Used for both cardinal and ordinal
+   * rules.
+   */
+  readonly ranges?: ReadonlyMap<string, readonly PluralRange[]>;
+}
+
+/**
+ * Options for the `PluralRules` constructor. These have the same meaning as
+ * in `Intl.PluralRules`.
+ */
+export interface PluralRulesOptions {
+  /**
+   * The type of rules to use. Defaults to `'cardinal'`.
+   */
+  readonly type?: PluralRuleType;
+  readonly minimumIntegerDigits?: number;
+  readonly minimumFractionDigits?: number;
+  readonly maximumFractionDigits?: number;
+  readonly minimumSignificantDigits?: number;
+  readonly maximumSignificantDigits?: number;
+}
+
+/**
+ * The options of a `PluralRules` object, as returned by `resolvedOptions()`.
+ * Either the fraction digit or the significant digit options are present, but
+ * not both.
+ */
+export interface ResolvedPluralRulesOptions {
+  readonly locale: string;
+  readonly type: PluralRuleType;
+  readonly minimumIntegerDigits: number;
+  readonly minimumFractionDigits?: number;
+  readonly maximumFractionDigits?: number;
+  readonly minimumSignificantDigits?: number;
+  readonly maximumSignificantDigits?: number;
+  /**
+   * The categories of the rule set in canonical order: 'zero', 'one', 'two',
+   * 'few', 'many', followed by any non-standard categories in the order of
+   * the rule set, and 'other' last.
+   */
+  readonly pluralCategories: PluralCategory[];
+}
+
+const CanonicalCategoryOrder: readonly PluralCategory[] = [
+  'zero',
+  'one',
+  'two',
+  'few',
+  'many',
+];
+
+/**
+ * Selects plural categories with the same interface as `Intl.PluralRules`, but
+ * with rules from a parsed rule set rather than the environment's locale data.
+ * Numbers are formatted with the digit options before their category is
+ * determined, exactly as `Intl.PluralRules` does.
+ */
+export class PluralRules {
+  private readonly rules: PluralRuleSet;
+  private readonly ranges: readonly PluralRange[];
+  private readonly selectCompiled: CompiledRuleSet;
+  private readonly format: NumberFormatSpec;
+  /**
+   * True if every integer is formatted without fraction digits or rounding,
+   * in which case formatting can be skipped for integers.
+   */
+  private readonly integersUnchanged: boolean;
+  private readonly options: Omit<ResolvedPluralRulesOptions, 'pluralCategories'>;
+
+  /**
+   * Creates a new `PluralRules` object.
+   * @param source The rules to use. If this is a single rule set, it is used
+   *        regardless of locale and type, and `selectRange()` always returns
+   *        the category of the end of the range. Otherwise, the rule set and
+   *        range data are looked up by locale.
+   * @param locales The requested locale or locales, in order of preference.
+   *        Each locale is looked up with subtags removed from the end until a
+   *        match is found. If no locale matches, the environment's default
+   *        locale is tried, followed by `und`.
+   * @param options Options for the rules.
+   * @throws {RangeError} A locale tag is invalid, no rules are available for
+   *         any locale, or a digit option is out of range.
+   */
+  constructor(
+    source: PluralRuleSet | PluralRulesData,
+    locales?: string | readonly string[],
+    options: PluralRulesOptions = {}
+  ) {
+    const { type = 'cardinal' } = options;
+    if (type !== 'cardinal' && type !== 'ordinal') {
+      throw new RangeError(`Invalid plural rule type: ${type}`);
+    }
+
+    const requested = canonicalizeLocales(locales);
+    let locale: string;
+    if (isRuleSet(source)) {
+      this.rules = source;
+      this.ranges = [];
+      locale = requested.length > 0 ? requested[0] : getDefaultLocale();
+    } else {
+      const available = source[type];
+      const found = available && findLocale(available, requested);
+      if (!found) {
+        throw new RangeError(
+          `No ${type} plural rules for locale: ${requested.join(', ')}`
+        );
+      }
+      locale = found;
+      this.rules = available.get(locale)!;
+      this.ranges = source.ranges && source.ranges.get(locale) || [];
+    }
+    this.selectCompiled = compileRuleSet(this.rules);
+
+    // Intl.NumberFormat validates the digit options and resolves them exactly
+    // as Intl.PluralRules does.
+    const digits = new Intl.NumberFormat('en', {
+      minimumIntegerDigits: options.minimumIntegerDigits,
+      minimumFractionDigits: options.minimumFractionDigits,
+      maximumFractionDigits: options.maximumFractionDigits,
+      minimumSignificantDigits: options.minimumSignificantDigits,
+      maximumSignificantDigits: options.maximumSignificantDigits,
+    }).resolvedOptions();
+
+    const { minimumIntegerDigits } = digits;
+    if (digits.minimumSignificantDigits !== undefined) {
+      const {
+        minimumSignificantDigits,
+        maximumSignificantDigits,
+      } = digits;
+      this.format = { minimumSignificantDigits, maximumSignificantDigits };
+      this.integersUnchanged = false;
+      this.options = {
+        locale,
+        type,
+        minimumIntegerDigits,
+        minimumSignificantDigits,
+        maximumSignificantDigits,
+      };
+    } else {
+      const { minimumFractionDigits, maximumFractionDigits } = digits;
+      this.format = { minimumFractionDigits, maximumFractionDigits };
+      this.integersUnchanged = minimumFractionDigits === 0;
+      this.options = {
+        locale,
+        type,
+        minimumIntegerDigits,
+        minimumFractionDigits,
+        maximumFractionDigits,
+      };
+    }
+  }
+
+  /**
+   * Gets the plural category of a number.
+   * @param n The number. It is formatted with the digit options of this object
+   *        before its category is determined. Strings and bigints are
+   *        formatted exactly; see `getPluralCategory()` for details.
+   * @return The plural category of the number.
+   */
+  select(n: PluralInput): PluralCategory {
+    if (
+      this.integersUnchanged &&
+      typeof n === 'number' &&
+      Number.isInteger(n) &&
+      Math.abs(n) < 1e21
+    ) {
+      // Formatting does not change the number, so skip it.
+      return this.selectCompiled(n);
+    }
+    return this.selectCompiled(n, this.format);
+  }
+
+  /**
+   * Gets the plural category of a range of numbers. See
+   * `getPluralRangeCategory()` for details.
+   * @param start The start of the range.
+   * @param end The end of the range.
+   * @return The plural category of the range.
+   */
+  selectRange(start: PluralInput, end: PluralInput): PluralCategory {
+    return lookupPluralRange(this.ranges, this.select(start), this.select(end));
+  }
+
+  /**
+   * Gets the resolved options of this object.
+   * @return A new object containing the resolved options.
+   */
+  resolvedOptions(): ResolvedPluralRulesOptions {
+    const pluralCategories = sortCategories(this.rules.rules.keys());
+    return { ...this.options, pluralCategories };
+  }
+}
+
+/**
+ * Sorts plural categories in canonical order: 'zero', 'one', 'two', 'few',
+ * 'many', followed by non-standard categories in their original order, and
+ * 'other' last. The result always contains 'other'.
+ */
+export function sortCategories(
+  categories: Iterable<PluralCategory>
+): PluralCategory[] {
+  const all = Array.from(categories);
+  const result = CanonicalCategoryOrder.filter(c => all.includes(c));
+  for (const category of all) {
+    if (category !== 'other' && !result.includes(category)) {
+      result.push(category);
+    }
+  }
+  result.push('other');
+  return result;
+}
+
+function isRuleSet(
+  source: PluralRuleSet | PluralRulesData
+): source is PluralRuleSet {
+  return (source as PluralRuleSet).rules instanceof Map;
+}
+
+function canonicalizeLocales(
+  locales: string | readonly string[] | undefined
+): string[] {
+  if (locales === undefined) {
+    return [];
+  }
+  const list = typeof locales === 'string' ? [locales] : locales;
+  // Intl.Locale throws a RangeError if the tag is invalid.
+  return list.map(tag => new Intl.Locale(tag).toString());
+}
+
+function getDefaultLocale(): string {
+  return new Intl.NumberFormat().resolvedOptions().locale;
+}
+
+function findLocale(
+  available: ReadonlyMap<string, unknown>,
+  requested: readonly string[]
+): string | null {
+  // Locale tags are case-insensitive.
+  const keys = new Map<string, string>();
+  for (const key of available.keys()) {
+    keys.set(key.toLowerCase(), key);
+  }
+
+  for (const locale of requested.concat(getDefaultLocale(), 'und')) {
+    const subtags = locale.toLowerCase().split('-');
+    // Extensions and private use subtags, which start with a single-letter
+    // subtag, do not affect the plural rules.
+    let length = subtags.findIndex(subtag => subtag.length === 1);
+    if (length === -1) {
+      length = subtags.length;
+    }
+    for (; length > 0; length--) {
+      const key = keys.get(subtags.slice(0, length).join('-'));
+      if (key !== undefined) {
+        return key;
+      }
+    }
+  }
+  return null;
+}
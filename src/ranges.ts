@@ -0,0 +1,66 @@
+import { getPluralCategory } from './evaluate';
+import { PluralInput, NumberFormatSpec } from './operands';
+import { PluralRuleSet, PluralCategory } from './types';
+
+/**
+ * An entry in CLDR's plural range data. A range of numbers whose start is in
+ * the category `start` and whose end is in the category `end` is in the
+ * category `result`. For example, in English, "1–3 days" uses the plural form
+ * because the entry for start 'one' and end 'other' has result 'other'.
+ */
+export interface PluralRange {
+  /**
+   * The plural category of the start of the range.
+   */
+  readonly start: PluralCategory;
+  /**
+   * The plural category of the end of the range.
+   */
+  readonly end: PluralCategory;
+  /**
+   * The plural category of the range as a whole.
+   */
+  readonly result: PluralCategory;
+}
+
+/**
+ * Gets the plural category of a range of numbers, such as "1–3". The category
+ * of each end of the range is determined by the rule set, after which the pair
+ * of categories is looked up in the range data. If there is no matching entry,
+ * the category of the end of the range is used.
+ * @param rules The rule set to match the numbers against.
+ * @param ranges The plural range data for the same locale as the rule set.
+ * @param start The start of the range. See `getPluralCategory()` for details.
+ * @param end The end of the range. See `getPluralCategory()` for details.
+ * @param format If specified, both ends of the range are formatted with these
+ *        options. See `getPluralCategory()` for details.
+ * @return The plural category of the range.
+ */
+export function getPluralRangeCategory(
+  rules: PluralRuleSet,
+  ranges: readonly PluralRange[],
+  start: PluralInput,
+  end: PluralInput,
+  format?: NumberFormatSpec
+): PluralCategory {
+  const startCategory = getPluralCategory(rules, start, format);
+  const endCategory = getPluralCategory(rules, end, format);
+  return lookupPluralRange(ranges, startCategory, endCategory);
+}
+
+/**
+ * Looks up the category of a range in plural range data, given the categories
+ * of its ends. Falls back to the end category.
+ */
+export function lookupPluralRange(
+  ranges: readonly PluralRange[],
+  startCategory: PluralCategory,
+  endCategory: PluralCategory
+): PluralCategory {
+  for (const range of ranges) {
+    if (range.start === startCategory && range.end === endCategory) {
+      return range.result;
+    }
+  }
+  return endCategory;
+}
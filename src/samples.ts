@@ -0,0 +1,617 @@
+import { compileRuleSet } from './compile';
+import { getPluralCategory } from './evaluate';
+import { findRepresentatives } from './solver';
+import {
+  PluralRuleSet,
+  PluralRuleType,
+  Condition,
+  Relation,
+  PluralCategory,
+  Samples,
+  SampleList,
+  SampleRange,
+  SampleValue,
+} from './types';
+
+/**
+ * The result of verifying the sample values of a rule set.
+ */
+export interface SampleReport {
+  /**
+   * True if every sample value evaluates to the category it is listed under,
+   * and every sample range is valid.
+   */
+  readonly valid: boolean;
+  /**
+   * The total number of sample values that were checked.
+   */
+  readonly checked: number;
+  /**
+   * The sample values that do not evaluate to the category they are listed
+   * under, in source order.
+   */
+  readonly mismatches: readonly SampleMismatch[];
+  /**
+   * The sample ranges that could not be expanded, in source order. The values
+   * in these ranges are not checked.
+   */
+  readonly invalidRanges: readonly InvalidSampleRange[];
+}
+
+/**
+ * A sample value that does not evaluate to the category it is listed under.
+ */
+export interface SampleMismatch {
+  /**
+   * The category that the sample value is listed under.
+   */
+  readonly category: PluralCategory;
+  /**
+   * The category that the sample value actually evaluates to.
+   */
+  readonly actual: PluralCategory;
+  /**
+   * The sample list that the value came from.
+   */
+  readonly type: 'integer' | 'decimal';
+  /**
+   * The sample value that was evaluated, as it was passed to
+   * `getPluralCategory()`.
+   */
+  readonly value: string;
+  /**
+   * The sample value or sample range that the value came from.
+   */
+  readonly sample: SampleValue | SampleRange;
+}
+
+/**
+ * A sample range that cannot be expanded, such as `1.0~1.25`.
+ */
+export interface InvalidSampleRange {
+  /**
+   * The category that the sample range is listed under.
+   */
+  readonly category: PluralCategory;
+  /**
+   * The sample list that the range came from.
+   */
+  readonly type: 'integer' | 'decimal';
+  /**
+   * A description of the problem, as in the error thrown by
+   * `expandSamples()`.
+   */
+  readonly message: string;
+  /**
+   * The invalid sample range.
+   */
+  readonly sample: SampleRange;
+}
+
+/**
+ * Options that control `generateSamples()`.
+ */
+export interface SampleOptions {
+  /**
+   * The type of the rule set. Ordinal rules only apply to integers, so no
+   * decimal samples are generated for them. Defaults to `'cardinal'`.
+   */
+  readonly type?: PluralRuleType;
+}
+
+/**
+ * Verifies that every sample value in a rule set evaluates to the category it
+ * is listed under. This includes samples for the 'other' category. Sample
+ * ranges are expanded to every value they contain, as by `expandSamples()`.
+ * Invalid sample ranges are reported, and the remaining samples are still
+ * verified.
+ * @param rules The rule set whose samples should be verified.
+ * @return A report of the verified samples.
+ */
+export function verifySamples(rules: PluralRuleSet): SampleReport {
+  const mismatches: SampleMismatch[] = [];
+  const invalidRanges: InvalidSampleRange[] = [];
+  let checked = 0;
+
+  const verifyList = (
+    category: PluralCategory,
+    type: 'integer' | 'decimal',
+    list: SampleList | null
+  ) => {
+    if (!list) {
+      return;
+    }
+    for (const sample of list.ranges) {
+      let values: Iterable<string>;
+      try {
+        values = expandSample(sample);
+      } catch (e) {
+        if (!(e instanceof RangeError) || sample.kind !== 'SampleRange') {
+          throw e;
+        }
+        invalidRanges.push({ category, type, message: e.message, sample });
+        continue;
+      }
+      for (const value of values) {
+        const actual = getPluralCategory(rules, value);
+        if (actual !== category) {
+          mismatches.push({ category, actual, type, value, sample });
+        }
+        checked++;
+      }
+    }
+  };
+
+  const verify = (category: PluralCategory, samples: Samples | null) => {
+    if (samples) {
+      verifyList(category, 'integer', samples.integer);
+      verifyList(category, 'decimal', samples.decimal);
+    }
+  };
+
+  for (const [category, rule] of rules.rules) {
+    verify(category, rule.samples);
+  }
+  verify('other', rules.other);
+
+  return {
+    valid: mismatches.length === 0 && invalidRanges.length === 0,
+    checked,
+    mismatches,
+    invalidRanges,
+  };
+}
+
+/**
+ * The concrete values denoted by a sample list. Iterating over this object
+ * yields the source text of every value, in list order.
+ */
+export interface ExpandedSamples extends Iterable<string> {
+  /**
+   * If true, the sample list is infinite (ends with `...` or `…`), and the
+   * expanded values are only a subset of the values in the plural category.
+   */
+  readonly infinite: boolean;
+}
+
+/**
+ * Expands a sample list to every concrete value it denotes. A sample range
+ * such as `1.3~1.5` steps in units of its last fraction digit, so it expands
+ * to 1.3, 1.4 and 1.5. The expanded values retain the exact formatting of the
+ * sample source text, including trailing zeros and exponents.
+ * @param list The sample list to expand.
+ * @return The expanded values.
+ * @throws {RangeError} A sample range is invalid: its bounds do not have the
+ *         same number of fraction digits or the same exponent, or its start is
+ *         greater than its end.
+ */
+export function expandSamples(list: SampleList): ExpandedSamples {
+  // Validate everything up front, so the caller doesn't get an error halfway
+  // through the iteration.
+  const samples = list.ranges.map(expandSample);
+  return {
+    infinite: list.infinite,
+    *[Symbol.iterator]() {
+      for (const values of samples) {
+        yield* values;
+      }
+    },
+  };
+}
+
+/**
+ * Generates CLDR-style sample values for every category in a rule set,
+ * including 'other'. The samples are found by evaluating the rules:
+ *
+ * * Integer samples are the first 16 integers in the category, followed by
+ *   the first integer in the category at or after 100, 1000, 10000, 100000
+ *   and 1000000.
+ * * Decimal samples are the first 16 numbers in the category with one fraction
+ *   digit, followed by the first such number at or after 10, 100, 1000, 10000,
+ *   100000 and 1000000 whose fraction is also in one of the first samples of
+ *   some category. If the category has no numbers with one fraction digit,
+ *   the samples have the fewest fraction digits that the category allows. If
+ *   the category is finite, the samples are repeated with trailing zeros, up
+ *   to four fraction digits, as long as they stay in the category.
+ *
+ * If a category has numbers of a type, but none of the above, the simplest
+ * such number is used. Consecutive values are written as ranges, such as
+ * `2~4`, and a sample list is infinite if its category contains arbitrarily
+ * large numbers of its type.
+ * @param rules The rule set to generate samples for.
+ * @param options Options that control the samples.
+ * @return The samples for each category, in rule set order, followed by
+ *         'other'. A category that matches no number has null samples.
+ * @throws {RangeError} The rule type is invalid, or the rules are too complex
+ *         to analyze exactly, because their constants or the least common
+ *         multiple of their modulo divisors are too large.
+ */
+export function generateSamples(
+  rules: PluralRuleSet,
+  options: SampleOptions = {}
+): Map<PluralCategory, Samples | null> {
+  const { type = 'cardinal' } = options;
+  if (type !== 'cardinal' && type !== 'ordinal') {
+    throw new RangeError(`Invalid plural rule type: ${type}`);
+  }
+  const decimals = type === 'cardinal';
+
+  const categorize = compileRuleSet(rules);
+  const samples = new Map<PluralCategory, CategorySamples>();
+  for (const category of rules.rules.keys()) {
+    samples.set(category, createCategorySamples());
+  }
+  samples.set('other', createCategorySamples());
+  const get = (n: GeneratedSample) => samples.get(categorize(n.source))!;
+
+  // The relation `v = 0` makes the solver tell integers and decimals apart,
+  // even if the rules don't.
+  const conditions: Condition[] = [IntegerRelation];
+  for (const rule of rules.rules.values()) {
+    conditions.push(rule.condition);
+  }
+  for (const rep of findRepresentatives(conditions, true)) {
+    const { infinite } = samples.get(categorize(rep.operands))!;
+    infinite[rep.operands.v !== 0 ? 1 : 0] = true;
+  }
+
+  for (let x = 0; x < SmallSampleScan; x++) {
+    const n = createSample(x, 0, 0);
+    const { integer } = get(n);
+    if (integer.length < SampleLimit) {
+      integer.push(n);
+    }
+  }
+  for (const power of PowersOfTen) {
+    if (power < 100) {
+      continue;
+    }
+    addFirstSamples(power, 0, [0], get, (c: CategorySamples) => c.integer);
+  }
+
+  for (let v = 1; decimals && v <= MaxFractionDigits; v++) {
+    for (let k = 0; k < SmallSampleScan; k++) {
+      const scale = Math.pow(10, v);
+      const n = createSample(Math.floor(k / scale), k % scale, v);
+      const { decimal } = get(n);
+      if (
+        decimal.length < SampleLimit &&
+        (decimal.length === 0 || decimal[0].v === v)
+      ) {
+        decimal.push(n);
+      }
+    }
+  }
+  for (const category of samples.values()) {
+    if (!category.infinite[1]) {
+      addPaddedSamples(category.decimal, get);
+    }
+  }
+  for (let v = 1; decimals && v <= MaxFractionDigits; v++) {
+    // Only categories whose samples have `v` fraction digits are added to,
+    // and only with fractions that their samples already have.
+    const scale = Math.pow(10, v);
+    const fractions = new Set<number>();
+    for (const { decimal } of samples.values()) {
+      if (decimal.length > 0 && decimal[0].v === v) {
+        decimal.forEach(n => fractions.add(n.units % scale));
+      }
+    }
+    const decimals = (c: CategorySamples) =>
+      c.decimal.length > 0 && c.decimal[0].v === v ? c.decimal : null;
+    for (const power of PowersOfTen) {
+      addFirstSamples(
+        power,
+        v,
+        Array.from(fractions).sort((a, b) => a - b),
+        get,
+        decimals
+      );
+    }
+  }
+
+  // Fall back to the simplest number of each type in each category.
+  for (const rep of findRepresentatives(conditions)) {
+    if (rep.operands.v !== 0 && !decimals) {
+      continue;
+    }
+    const category = samples.get(categorize(rep.operands))!;
+    const list = rep.operands.v !== 0 ? category.decimal : category.integer;
+    if (list.length === 0) {
+      list.push({ source: rep.source, v: rep.operands.v as number, units: NaN });
+    }
+  }
+
+  const result = new Map<PluralCategory, Samples | null>();
+  for (const [category, { integer, decimal, infinite }] of samples) {
+    result.set(
+      category,
+      integer.length > 0 || decimal.length > 0
+        ? {
+          kind: 'Samples',
+          integer: createSampleList(integer, infinite[0]),
+          decimal: createSampleList(decimal, infinite[1]),
+        }
+        : null
+    );
+  }
+  return result;
+}
+
+function expandSample(sample: SampleValue | SampleRange): Iterable<string> {
+  if (sample.kind === 'SampleValue') {
+    return [sample.source];
+  }
+  return expandRange(parseSampleRange(sample));
+}
+
+interface ParsedSampleRange {
+  /**
+   * The digits of the start value, without the decimal point.
+   */
+  readonly start: string;
+  /**
+   * The digits of the end value, without the decimal point.
+   */
+  readonly end: string;
+  /**
+   * The number of fraction digits in each bound.
+   */
+  readonly decimals: number;
+  /**
+   * The exponent part of each bound, such as 'c3', or the empty string.
+   */
+  readonly exponent: string;
+}
+
+const SamplePattern = /^(\d+)(?:\.(\d+))?([ce]\d+)?$/;
+
+function parseSampleRange(range: SampleRange): ParsedSampleRange {
+  const start = range.start.source.match(SamplePattern);
+  const end = range.end.source.match(SamplePattern);
+  const rangeSource = `${range.start.source}~${range.end.source}`;
+  if (!start || !end) {
+    throw new RangeError(`Invalid sample range: ${rangeSource}`);
+  }
+
+  const [, startInt, startFraction = '', startExponent = ''] = start;
+  const [, endInt, endFraction = '', endExponent = ''] = end;
+  if (startFraction.length !== endFraction.length) {
+    throw new RangeError(
+      `Sample range bounds must have the same number of fraction digits: ${
+        rangeSource
+      }`
+    );
+  }
+  if (startExponent !== endExponent) {
+    throw new RangeError(
+      `Sample range bounds must have the same exponent: ${rangeSource}`
+    );
+  }
+
+  const parsed: ParsedSampleRange = {
+    start: startInt + startFraction,
+    end: endInt + endFraction,
+    decimals: startFraction.length,
+    exponent: startExponent,
+  };
+  if (compareDigits(parsed.start, parsed.end) > 0) {
+    throw new RangeError(
+      `Sample range start must not be greater than its end: ${rangeSource}`
+    );
+  }
+  return parsed;
+}
+
+function* expandRange(range: ParsedSampleRange): Generator<string> {
+  // We step through the range one unit of the last fraction digit at a time.
+  // The digits are manipulated as strings, so there is no loss of precision.
+  const { end, decimals, exponent } = range;
+  let digits = range.start;
+  for (;;) {
+    yield formatDigits(digits, decimals) + exponent;
+    if (compareDigits(digits, end) >= 0) {
+      break;
+    }
+    digits = incrementDigits(digits);
+  }
+}
+
+function formatDigits(digits: string, decimals: number): string {
+  if (decimals === 0) {
+    return digits;
+  }
+  const point = digits.length - decimals;
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+function incrementDigits(digits: string): string {
+  let i = digits.length - 1;
+  while (i >= 0 && digits[i] === '9') {
+    i--;
+  }
+  const zeros = '0'.repeat(digits.length - i - 1);
+  if (i < 0) {
+    return '1' + zeros;
+  }
+  return digits.slice(0, i) + String(+digits[i] + 1) + zeros;
+}
+
+function compareDigits(a: string, b: string): number {
+  a = a.replace(/^0+(?=\d)/, '');
+  b = b.replace(/^0+(?=\d)/, '');
+  if (a.length !== b.length) {
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * A sample value generated by `generateSamples()`.
+ */
+interface GeneratedSample {
+  /**
+   * The source text of the value.
+   */
+  readonly source: string;
+  /**
+   * The number of fraction digits.
+   */
+  readonly v: number;
+  /**
+   * The value in units of the last fraction digit, or NaN if the sample can't
+   * be part of a range.
+   */
+  readonly units: number;
+}
+
+interface CategorySamples {
+  readonly integer: GeneratedSample[];
+  readonly decimal: GeneratedSample[];
+  /**
+   * Whether the category has arbitrarily large integers and decimals.
+   */
+  readonly infinite: [boolean, boolean];
+}
+
+const IntegerRelation: Relation = {
+  kind: 'Relation',
+  expr: { kind: 'Expr', operand: 'v', modDivisor: null },
+  ranges: [{ kind: 'Value', value: 0, source: '0' }],
+  negated: false,
+  within: false,
+};
+
+// The number of values each category gets before the powers of ten.
+const SampleLimit = 16;
+// The number of integers, and of decimals for each fraction digit count, that
+// are scanned for the first samples.
+const SmallSampleScan = 1000;
+const MaxFractionDigits = 4;
+const PowersOfTen = [10, 100, 1000, 10000, 100000, 1000000];
+
+function createCategorySamples(): CategorySamples {
+  return { integer: [], decimal: [], infinite: [false, false] };
+}
+
+function createSample(
+  integer: number,
+  fraction: number,
+  v: number
+): GeneratedSample {
+  const source = v > 0
+    ? `${integer}.${String(fraction).padStart(v, '0')}`
+    : String(integer);
+  return { source, v, units: integer * Math.pow(10, v) + fraction };
+}
+
+/**
+ * Adds the first number at or after `power` in each category to the samples
+ * returned by `getList`, unless the samples already go past it. Only numbers
+ * with `v` fraction digits and one of the specified fractions are tried.
+ */
+function addFirstSamples(
+  power: number,
+  v: number,
+  fractions: readonly number[],
+  get: (n: GeneratedSample) => CategorySamples,
+  getList: (c: CategorySamples) => GeneratedSample[] | null
+): void {
+  const found = new Set<CategorySamples>();
+  for (let x = power; x < power + 100; x++) {
+    for (const fraction of fractions) {
+      const n = createSample(x, fraction, v);
+      const category = get(n);
+      if (found.has(category)) {
+        continue;
+      }
+      found.add(category);
+
+      const list = getList(category);
+      if (list && (list.length === 0 || list[list.length - 1].units < n.units)) {
+        list.push(n);
+      }
+    }
+  }
+}
+
+/**
+ * Adds the samples again with more trailing zeros, as long as they have the
+ * same category and there is room.
+ */
+function addPaddedSamples(
+  list: GeneratedSample[],
+  get: (n: GeneratedSample) => CategorySamples
+): void {
+  if (list.length === 0) {
+    return;
+  }
+  const original = list.slice();
+  const category = get(original[0]);
+  for (let zeros = 1; ; zeros++) {
+    let added = false;
+    for (const { source, v, units } of original) {
+      if (list.length >= SampleLimit) {
+        return;
+      }
+      if (v + zeros > MaxFractionDigits) {
+        continue;
+      }
+      const n = {
+        source: source + '0'.repeat(zeros),
+        v: v + zeros,
+        units: units * Math.pow(10, zeros),
+      };
+      if (get(n) === category) {
+        list.push(n);
+        added = true;
+      }
+    }
+    if (!added) {
+      return;
+    }
+  }
+}
+
+function createSampleList(
+  values: readonly GeneratedSample[],
+  infinite: boolean
+): SampleList | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  // Runs of three or more consecutive values become ranges.
+  const ranges: (SampleRange | SampleValue)[] = [];
+  for (let start = 0; start < values.length;) {
+    let end = start;
+    while (
+      end + 1 < values.length &&
+      values[end + 1].v === values[start].v &&
+      values[end + 1].units === values[end].units + 1
+    ) {
+      end++;
+    }
+    if (end - start >= 2) {
+      ranges.push({
+        kind: 'SampleRange',
+        start: createSampleValue(values[start]),
+        end: createSampleValue(values[end]),
+      });
+    } else {
+      for (let i = start; i <= end; i++) {
+        ranges.push(createSampleValue(values[i]));
+      }
+    }
+    start = end + 1;
+  }
+  return { kind: 'SampleList', ranges, infinite };
+}
+
+function createSampleValue(sample: GeneratedSample): SampleValue {
+  return {
+    kind: 'SampleValue',
+    value: Number(sample.source.replace('c', 'e')),
+    source: sample.source,
+  };
+}
@@ -0,0 +1,468 @@
+import { Operands, Integer } from './operands';
+import { testRelation } from './evaluate';
+import { Condition, Relation } from './types';
+
+/*
+ * The solver finds a small set of numbers that, between them, cover every way
+ * a set of conditions can evaluate. It does so by splitting each number into
+ * three independent parts:
+ *
+ * - The integer part, which is read by the operands i and n.
+ * - The fraction part, which is read by the operands v, w, f and t. Whether
+ *   the fraction is non-zero also affects n.
+ * - The exponent, which is read by the operands c and e.
+ *
+ * Every relation reads exactly one of these parts. For each part, we scan the
+ * possible values and keep the first value for each distinct combination of
+ * relation results (its "signature"). The scan only needs to cover every
+ * constant in the relations plus one full period of the modulo divisors: past
+ * that, the signatures repeat. The representatives are then the combinations
+ * of the values kept for each part.
+ *
+ * Because every condition is built from relations, two numbers with the same
+ * signature for every part evaluate every condition identically.
+ *
+ * Scanning the integer part from just past the largest constant instead of
+ * from 0 finds only the signatures that recur for arbitrarily large numbers.
+ *
+ * The parts are not entirely independent: a compact number has at least one
+ * digit before the decimal point, so a number with the exponent c has an
+ * integer part of at least 10^c. The integer part is scanned separately for
+ * each exponent, and values past the largest constant are moved up by whole
+ * periods until they are large enough.
+ *
+ * If a scan would have to cover more than `MaxScan` values, the solver gives
+ * up rather than return a partial result, as that could miss combinations and
+ * make the caller draw the wrong conclusion.
+ */
+
+/**
+ * A number that stands in for every number whose operands give the same result
+ * for each relation in a set of conditions.
+ */
+export interface Representative {
+  /**
+   * The operands of the number.
+   */
+  readonly operands: Operands;
+  /**
+   * The source text of the number, which can be passed to
+   * `getPluralCategory()`.
+   */
+  readonly source: string;
+}
+
+type MutableOperands = {
+  -readonly [K in keyof Operands]: Operands[K];
+};
+
+interface FractionPart {
+  readonly v: number;
+  readonly w: number;
+  readonly f: number;
+  readonly t: number;
+  readonly digits: string;
+}
+
+interface IntegerScan {
+  /**
+   * The first value of each signature.
+   */
+  readonly all: readonly number[];
+  /**
+   * The first value past the largest constant of each signature that occurs
+   * there.
+   */
+  readonly pastMax: readonly number[];
+}
+
+interface Bounds {
+  /**
+   * The largest constant that any relation compares against.
+   */
+  readonly max: number;
+  /**
+   * The least common multiple of all modulo divisors, or Infinity if it is
+   * larger than `MaxScan`.
+   */
+  readonly period: number;
+}
+
+// Scanning takes time proportional to the least common multiple of the modulo
+// divisors. This limit is large enough for every rule in CLDR, the largest
+// divisor of which is 1000000. Pathological rules that need a longer scan are
+// rejected.
+const MaxScan = 4000000;
+
+/**
+ * Finds representative numbers for a set of conditions. Every combination of
+ * relation results that is possible for some number is produced by at least
+ * one representative. The simplest numbers come first: those without an
+ * exponent, then those with the fewest fraction digits, then the smallest.
+ * @param conditions The conditions to find representatives for.
+ * @param unbounded If true, only combinations that are possible for numbers
+ *        with arbitrarily large integer parts are produced, and every integer
+ *        part is larger than any constant that i or n is compared against.
+ * @return The representative numbers.
+ * @throws {RangeError} The conditions are too complex to analyze: some part of
+ *         the number would have to be scanned past `MaxScan` values.
+ */
+export function findRepresentatives(
+  conditions: readonly Condition[],
+  unbounded = false
+): Representative[] {
+  const integerRelations: Relation[] = [];
+  const fractionRelations: Relation[] = [];
+  const exponentRelations: Relation[] = [];
+
+  const seen = new Set<string>();
+  for (const relation of collectRelations(conditions, [])) {
+    // Negation doesn't change where the results of a relation change, so
+    // relations that differ only by negation are equivalent here.
+    const key = getRelationKey(relation);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    switch (relation.expr.operand) {
+      case 'n':
+      case 'i':
+        integerRelations.push(relation);
+        break;
+      case 'v':
+      case 'w':
+      case 'f':
+      case 't':
+        fractionRelations.push(relation);
+        break;
+      case 'c':
+      case 'e':
+        exponentRelations.push(relation);
+        break;
+    }
+  }
+
+  const exponents = scanExponents(exponentRelations);
+
+  // Past the largest constant, the signatures of the integer part repeat every
+  // period, so values below the minimum for an exponent can be moved up by
+  // whole periods without changing them. Exponents whose minimum is past the
+  // largest constant share a scan with the exponent 0.
+  const bounds = getBounds(integerRelations);
+  const scans = new Map<number, IntegerScan[]>();
+  const integersByExponent = exponents.map(c => {
+    const min = getMinInteger(c);
+    const large = unbounded || min > bounds.max;
+    const start = unbounded ? bounds.max + 1 : large ? 0 : Number(min);
+    let scan = scans.get(start);
+    if (!scan) {
+      scan = [
+        scanIntegers(integerRelations, false, start, bounds),
+        scanIntegers(integerRelations, true, start, bounds),
+      ];
+      scans.set(start, scan);
+    }
+    return scan.map(({ all, pastMax }) =>
+      moveUp(large ? pastMax : all, min, bounds.period)
+    );
+  });
+  // The integer part is scanned first, as it usually takes the longest, and
+  // the evaluator is fastest while it has only seen one kind of operands.
+  const fractions = scanFractions(fractionRelations);
+
+  const result: Representative[] = [];
+  exponents.forEach((c, index) => {
+    const integers = integersByExponent[index];
+    for (const fraction of fractions) {
+      for (const i of integers[fraction.t !== 0 ? 1 : 0]) {
+        result.push(createRepresentative(i, fraction, c));
+      }
+    }
+  });
+  return result;
+}
+
+function collectRelations(
+  conditions: readonly Condition[],
+  relations: Relation[]
+): Relation[] {
+  for (const node of conditions) {
+    switch (node.kind) {
+      case 'OrCondition':
+        collectRelations(node.alternatives, relations);
+        break;
+      case 'AndCondition':
+        collectRelations(node.relations, relations);
+        break;
+      case 'Relation':
+        relations.push(node);
+        break;
+    }
+  }
+  return relations;
+}
+
+function getRelationKey(relation: Relation): string {
+  const { expr, ranges, within } = relation;
+  const divisor = expr.modDivisor ? expr.modDivisor.value : '';
+  const rangeKeys = ranges.map(range =>
+    range.kind === 'Value'
+      ? range.value
+      : `${range.start.value}..${range.end.value}`
+  );
+  return `${expr.operand}%${divisor} ${within ? 'within' : 'in'} ${rangeKeys}`;
+}
+
+function scanIntegers(
+  relations: Relation[],
+  fractional: boolean,
+  start: number,
+  bounds: Bounds
+): IntegerScan {
+  // When the number has a non-zero fraction, only n is affected. We use the
+  // fraction 0.5, but any non-zero fraction gives the same results.
+  const op = createOperands();
+  if (fractional) {
+    op.v = op.w = 1;
+    op.f = op.t = 5;
+  }
+  const fraction = fractional ? 0.5 : 0;
+
+  // Past the largest constant, the signatures repeat every period.
+  const limit = bounds.max + bounds.period;
+  checkScanLength(limit - start);
+
+  const all = new Map<number | string, number>();
+  const pastMax = new Map<number | string, number>();
+  for (let x = start; x <= limit; x++) {
+    op.n = x + fraction;
+    op.i = x;
+    const signature = getSignature(relations, op);
+    if (!all.has(signature)) {
+      all.set(signature, x);
+    }
+    if (x > bounds.max && !pastMax.has(signature)) {
+      pastMax.set(signature, x);
+    }
+  }
+  return {
+    all: Array.from(all.values()),
+    pastMax: Array.from(pastMax.values()),
+  };
+}
+
+/**
+ * Gets the smallest integer part of a number with the exponent c: 0 if there
+ * is no exponent, otherwise 10^c.
+ */
+function getMinInteger(c: number): Integer {
+  if (c === 0) {
+    return 0;
+  }
+  return c <= 15 ? Math.pow(10, c) : BigInt(10) ** BigInt(c);
+}
+
+/**
+ * Replaces each value below `min` by the smallest integer that is at least
+ * `min` and differs from it by a multiple of `period`.
+ */
+function moveUp(
+  values: readonly number[],
+  min: Integer,
+  period: number
+): Integer[] {
+  const result = values.map((x): Integer => {
+    if (x >= min) {
+      return x;
+    }
+    if (typeof min === 'number') {
+      // 10^15 plus a period is still a safe integer.
+      return x + Math.ceil((min - x) / period) * period;
+    }
+    const p = BigInt(period);
+    return BigInt(x) + (min - BigInt(x) + p - BigInt(1)) / p * p;
+  });
+  // Moving values up can put them out of order.
+  return result.sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+}
+
+function scanFractions(relations: Relation[]): FractionPart[] {
+  const fractionValueRelations = relations.filter(r =>
+    r.expr.operand === 'f' || r.expr.operand === 't'
+  );
+  const lengthRelations = relations.filter(r =>
+    r.expr.operand === 'v' || r.expr.operand === 'w'
+  );
+
+  // The digits of t are scanned up to one full period past the largest
+  // constant. The period includes 10 because t never ends in zero. Both v and
+  // w must be large enough to fit every t we scan.
+  const valueBounds = getBounds(fractionValueRelations);
+  const maxT = valueBounds.max + lcm(valueBounds.period, 10);
+  checkScanLength(maxT);
+  const lengthBounds = getBounds(lengthRelations);
+  const maxV = Math.max(
+    lengthBounds.max + lengthBounds.period,
+    String(maxT).length + 1
+  );
+
+  const op = createOperands();
+  const values = new Map<number | string, FractionPart>();
+  let scanned = 0;
+  for (let v = 0; v <= maxV; v++) {
+    for (let w = 0; w <= v; w++) {
+      const limit = w === 0 ? 0 : Math.min(Math.pow(10, w) - 1, maxT);
+      const scale = Math.pow(10, v - w);
+      for (let t = w === 0 ? 0 : 1; t <= limit; t++) {
+        if (t !== 0 && t % 10 === 0) {
+          // Trailing zeros are not part of t.
+          continue;
+        }
+        checkScanLength(++scanned);
+
+        op.v = v;
+        op.w = w;
+        op.f = t * scale;
+        op.t = t;
+        // Whether t is zero affects n, so it must be part of the signature.
+        const signature = `${t !== 0} ${getSignature(relations, op)}`;
+        if (!values.has(signature)) {
+          const digits = w === 0
+            ? '0'.repeat(v)
+            : String(t).padStart(w, '0') + '0'.repeat(v - w);
+          values.set(signature, { v, w, f: op.f, t, digits });
+        }
+      }
+    }
+  }
+  return Array.from(values.values());
+}
+
+function scanExponents(relations: Relation[]): number[] {
+  const op = createOperands();
+
+  const { max, period } = getBounds(relations);
+  const limit = max + period;
+  checkScanLength(limit);
+
+  const values = new Map<number | string, number>();
+  for (let x = 0; x <= limit; x++) {
+    op.c = op.e = x;
+    const signature = getSignature(relations, op);
+    if (!values.has(signature)) {
+      values.set(signature, x);
+    }
+  }
+  return Array.from(values.values());
+}
+
+function getBounds(relations: readonly Relation[]): Bounds {
+  let max = 0;
+  let period = 1;
+  for (const relation of relations) {
+    const { modDivisor } = relation.expr;
+    if (modDivisor && modDivisor.value > 0) {
+      period = lcm(period, modDivisor.value);
+      if (period > MaxScan) {
+        period = Infinity;
+      }
+    }
+    for (const range of relation.ranges) {
+      max = Math.max(
+        max,
+        range.kind === 'Value'
+          ? range.value
+          : Math.max(range.start.value, range.end.value)
+      );
+    }
+  }
+  return { max, period };
+}
+
+function checkScanLength(length: number): void {
+  if (length > MaxScan) {
+    throw new RangeError(
+      'The rules are too complex to analyze: the constants or the least ' +
+      'common multiple of the modulo divisors are too large'
+    );
+  }
+}
+
+function getSignature(
+  relations: readonly Relation[],
+  op: Operands
+): number | string {
+  // A number can represent up to 52 relation results exactly. Past that, we
+  // have to fall back to a string.
+  if (relations.length <= 52) {
+    let signature = 0;
+    for (let i = 0; i < relations.length; i++) {
+      signature = signature * 2 + (testRelation(relations[i], op) ? 1 : 0);
+    }
+    return signature;
+  }
+  return relations.map(r => testRelation(r, op) ? '1' : '0').join('');
+}
+
+function createOperands(): MutableOperands {
+  return { n: 0, i: 0, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 };
+}
+
+function createRepresentative(
+  i: Integer,
+  fraction: FractionPart,
+  c: number
+): Representative {
+  const { v, w, f, t, digits } = fraction;
+  const operands: Operands = {
+    n: Number(i) + t / Math.pow(10, w),
+    i,
+    v,
+    w,
+    f,
+    t,
+    c,
+    e: c,
+  };
+  return { operands, source: formatNumber(String(i), digits, c) };
+}
+
+function formatNumber(integer: string, fraction: string, exponent: number) {
+  if (exponent === 0) {
+    return fraction ? `${integer}.${fraction}` : integer;
+  }
+
+  // Write the number in compact form: move the decimal point `exponent` digits
+  // to the left and append the exponent, so that 1200 with c = 3 becomes 1.2c3.
+  let digits = integer + fraction;
+  let point = integer.length - exponent;
+  if (point < 1) {
+    digits = '0'.repeat(1 - point) + digits;
+    point = 1;
+  }
+  let mantissaFraction = digits.slice(point);
+  if (!fraction) {
+    // The trailing zeros are part of the integer, so they are not visible
+    // fraction digits; 1.200c3 and 1.2c3 are the same number.
+    mantissaFraction = mantissaFraction.replace(/0+$/, '');
+  }
+  const mantissa = mantissaFraction
+    ? `${digits.slice(0, point)}.${mantissaFraction}`
+    : digits.slice(0, point);
+  return `${mantissa}c${exponent}`;
+}
+
+function lcm(a: number, b: number): number {
+  if (!Number.isFinite(a)) {
+    return a;
+  }
+  return a / gcd(a, b) * b;
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
@@ -0,0 +1,193 @@
+import {
+  PluralRuleSet,
+  PluralRule,
+  Condition,
+  Relation,
+  Expr,
+  Range,
+  Value,
+  Samples,
+  SampleList,
+  SampleRange,
+  SampleValue,
+} from './types';
+
+/**
+ * Options that control the output of `stringifyRuleSet()` and
+ * `stringifyRule()`.
+ */
+export interface StringifyOptions {
+  /**
+   * If true, relations are written in CLDR's modern form, with `=` and `!=`.
+   * If false, they are written with `is`, `is not`, `in` and `not in`. Either
+   * way, `within` relations are written with `within`, as there is no modern
+   * equivalent. Defaults to true.
+   */
+  readonly canonical?: boolean;
+  /**
+   * The modulo operator. Defaults to `'%'`.
+   */
+  readonly mod?: '%' | 'mod';
+  /**
+   * The ellipsis at the end of an infinite sample list. Defaults to `'…'`.
+   */
+  readonly ellipsis?: '…' | '...';
+  /**
+   * If true, every rule in a rule set is written on its own line, and every
+   * sample list is written on an indented line of its own below the condition.
+   * Defaults to false.
+   */
+  readonly pretty?: boolean;
+}
+
+type ResolvedOptions = Required<StringifyOptions>;
+
+/**
+ * Converts a plural rule set to CLDR plural rule syntax. The result can be
+ * passed to `parseRuleSet()` to get an equivalent rule set back. Samples for
+ * the 'other' category are written last.
+ *
+ * Source locations are not preserved, nor is the exact formatting of the
+ * source text. Integer values are written without leading zeros, and sample
+ * values exactly as they were written in the source.
+ * @param rules The rule set to convert.
+ * @param options Options that control the output.
+ * @return The CLDR plural rule syntax for the rule set.
+ */
+export function stringifyRuleSet(
+  rules: PluralRuleSet,
+  options: StringifyOptions = {}
+): string {
+  const opts = resolveOptions(options);
+
+  const result: string[] = [];
+  for (const [category, rule] of rules.rules) {
+    result.push(`${category}: ${stringifyRuleBody(rule, opts)}`);
+  }
+  if (rules.other) {
+    result.push(`other:${stringifySamples(rules.other, opts)}`);
+  }
+  return result.join(opts.pretty ? ';\n' : '; ');
+}
+
+/**
+ * Converts a single plural rule (without plural category name) to CLDR plural
+ * rule syntax. The result can be passed to `parseRule()` to get an equivalent
+ * rule back. See `stringifyRuleSet()` for details.
+ * @param rule The rule to convert.
+ * @param options Options that control the output.
+ * @return The CLDR plural rule syntax for the rule.
+ */
+export function stringifyRule(
+  rule: PluralRule,
+  options: StringifyOptions = {}
+): string {
+  return stringifyRuleBody(rule, resolveOptions(options));
+}
+
+function resolveOptions(options: StringifyOptions): ResolvedOptions {
+  const {
+    canonical = true,
+    mod = '%',
+    ellipsis = '…',
+    pretty = false,
+  } = options;
+  return { canonical, mod, ellipsis, pretty };
+}
+
+function stringifyRuleBody(rule: PluralRule, opts: ResolvedOptions): string {
+  const condition = stringifyCondition(rule.condition, opts);
+  return rule.samples
+    ? condition + stringifySamples(rule.samples, opts)
+    : condition;
+}
+
+function stringifyCondition(node: Condition, opts: ResolvedOptions): string {
+  switch (node.kind) {
+    case 'OrCondition':
+      return node.alternatives
+        .map(alt => stringifyCondition(alt, opts))
+        .join(' or ');
+    case 'AndCondition':
+      return node.relations
+        .map(rel => stringifyRelation(rel, opts))
+        .join(' and ');
+    case 'Relation':
+      return stringifyRelation(node, opts);
+  }
+}
+
+function stringifyRelation(node: Relation, opts: ResolvedOptions): string {
+  const expr = stringifyExpr(node.expr, opts);
+  const ranges = node.ranges.map(stringifyRange).join(',');
+
+  let operator: string;
+  if (node.within) {
+    operator = node.negated ? 'not within' : 'within';
+  } else if (opts.canonical) {
+    operator = node.negated ? '!=' : '=';
+  } else if (node.ranges.length === 1 && node.ranges[0].kind === 'Value') {
+    operator = node.negated ? 'is not' : 'is';
+  } else {
+    operator = node.negated ? 'not in' : 'in';
+  }
+  return `${expr} ${operator} ${ranges}`;
+}
+
+function stringifyExpr(node: Expr, opts: ResolvedOptions): string {
+  return node.modDivisor
+    ? `${node.operand} ${opts.mod} ${stringifyValue(node.modDivisor)}`
+    : node.operand;
+}
+
+function stringifyRange(node: Range | Value): string {
+  return node.kind === 'Range'
+    ? `${stringifyValue(node.start)}..${stringifyValue(node.end)}`
+    : stringifyValue(node);
+}
+
+function stringifyValue(node: Value): string {
+  // Past Number.MAX_SAFE_INTEGER, the value is only an approximation of the
+  // source digits, so the digits are kept if they agree with the value.
+  const { value, source } = node;
+  if (source && /^[0-9]+$/.test(source) && Number(source) === value) {
+    return source.replace(/^0+(?=[0-9])/, '');
+  }
+  // String() would write large values with an exponent. Values that are not
+  // integers, which can only come from hand-built nodes, are written as they
+  // are.
+  return Number.isInteger(value) && !Number.isSafeInteger(value)
+    ? BigInt(value).toString()
+    : String(value);
+}
+
+function stringifySamples(node: Samples, opts: ResolvedOptions): string {
+  // The result includes the separator before each sample list, so that it can
+  // be appended directly to a condition.
+  const separator = opts.pretty ? '\n  ' : ' ';
+  let result = '';
+  if (node.integer) {
+    result += `${separator}@integer ${stringifySampleList(node.integer, opts)}`;
+  }
+  if (node.decimal) {
+    result += `${separator}@decimal ${stringifySampleList(node.decimal, opts)}`;
+  }
+  return result;
+}
+
+function stringifySampleList(
+  node: SampleList,
+  opts: ResolvedOptions
+): string {
+  const items = node.ranges.map(stringifySampleRange);
+  if (node.infinite) {
+    items.push(opts.ellipsis);
+  }
+  return items.join(', ');
+}
+
+function stringifySampleRange(node: SampleRange | SampleValue): string {
+  return node.kind === 'SampleRange'
+    ? `${node.start.source}~${node.end.source}`
+    : node.source;
+}
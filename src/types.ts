@@ -17,6 +17,11 @@ export interface PluralRuleSet {
    * with it.
    */
   readonly other: Samples | null;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -25,6 +30,12 @@ export interface PluralRuleSet {
  */
 export type PluralCategory = string;
 
+/**
+ * The type of a plural rule set: 'cardinal' for quantities (1 day, 2 days),
+ * or 'ordinal' for positions (1st, 2nd, 3rd).
+ */
+export type PluralRuleType = 'cardinal' | 'ordinal';
+
 /**
  * A parse node for a single plural category rule. Contains the condition that
  * determines when the category should be used, along with optional sample
@@ -40,6 +51,11 @@ export interface PluralRule {
    * Sample values for the category.
    */
   readonly samples: Samples | null;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 export type Condition =
@@ -58,6 +74,11 @@ export interface OrCondition {
    * alternatives match.
    */
   readonly alternatives: readonly Alternative[];
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 export type Alternative =
@@ -74,6 +95,11 @@ export interface AndCondition {
    * The relations that must match for the "and" condition to match.
    */
   readonly relations: readonly Relation[];
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -103,6 +129,11 @@ export interface Relation {
    * default behaviour is for a range to match only integers.
    */
   readonly within: boolean;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 export type RangeList = readonly (Range | Value)[];
@@ -123,6 +154,11 @@ export interface Expr {
    * remainder of `operand` divided by this field's value.
    */
   readonly modDivisor: Value | null;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -148,6 +184,11 @@ export interface Range {
    * The end of the range, inclusive.
    */
   readonly end: Value;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -163,6 +204,11 @@ export interface Value {
    * The source text of the numeric value.
    */
   readonly source: string;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -180,6 +226,11 @@ export interface Samples {
    * Decimal sample values.
    */
   readonly decimal: SampleList | null;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -198,6 +249,11 @@ export interface SampleList {
    * values in `ranges` is non-exhaustive.
    */
   readonly infinite: boolean;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 export type SampleRangeList = readonly (SampleRange | SampleValue)[];
@@ -212,7 +268,7 @@ export type SampleRangeList = readonly (SampleRange | SampleValue)[];
  * contains 5, 6, 7 and 8.
  *
  * The parser does *not* verify the number of decimal digits or exponent digits
- * of either bound.
+ * of either bound; `expandSamples()` does.
  */
 export interface SampleRange {
   readonly kind: 'SampleRange';
@@ -224,6 +280,11 @@ export interface SampleRange {
    * The end of the range, inclusive.
    */
   readonly end: SampleValue;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
 }
 
 /**
@@ -242,4 +303,59 @@ export interface SampleValue {
    * The source text of the numeric value.
    */
   readonly source: string;
+  /**
+   * The location of the node in the source text. Only present if the node
+   * was parsed with the `locations` option.
+   */
+  readonly span?: SourceSpan;
+}
+
+/**
+ * Any parse node. The `kind` property identifies the type of node.
+ */
+export type SyntaxNode =
+  | PluralRuleSet
+  | PluralRule
+  | OrCondition
+  | AndCondition
+  | Relation
+  | Expr
+  | Range
+  | Value
+  | Samples
+  | SampleList
+  | SampleRange
+  | SampleValue;
+
+/**
+ * The location of a node in the source text.
+ */
+export interface SourceSpan {
+  /**
+   * The position of the first character of the node.
+   */
+  readonly start: SourcePosition;
+  /**
+   * The position immediately after the last character of the node.
+   */
+  readonly end: SourcePosition;
+}
+
+/**
+ * A position in the source text.
+ */
+export interface SourcePosition {
+  /**
+   * The zero-based offset of the position, in UTF-16 code units.
+   */
+  readonly offset: number;
+  /**
+   * The one-based line number of the position. Lines are separated by '\n',
+   * '\r\n' or '\r'.
+   */
+  readonly line: number;
+  /**
+   * The one-based column number of the position, in UTF-16 code units.
+   */
+  readonly column: number;
 }
@@ -0,0 +1,345 @@
+import {
+  PluralRuleSet,
+  PluralRule,
+  PluralCategory,
+  Condition,
+  Alternative,
+  Relation,
+  Expr,
+  Range,
+  Value,
+  Samples,
+  SampleList,
+  SampleRange,
+  SampleValue,
+  SyntaxNode,
+} from './types';
+
+/**
+ * The kind of a parse node, such as `'Relation'`.
+ */
+export type SyntaxKind = SyntaxNode['kind'];
+
+/**
+ * The parse node with the specified kind.
+ */
+export type NodeOfKind<K extends SyntaxKind> = Extract<SyntaxNode, { kind: K }>;
+
+/**
+ * The ancestors of a parse node, starting with the root node that was passed
+ * to `walk()` or `transform()`, and ending with the node's parent.
+ */
+export type SyntaxPath = readonly SyntaxNode[];
+
+/**
+ * Functions that are called when `walk()` visits a node.
+ */
+export interface VisitorHooks<T extends SyntaxNode> {
+  /**
+   * Called before the children of the node are visited. If this function
+   * returns false, the children are skipped.
+   */
+  enter?(node: T, path: SyntaxPath): void | boolean;
+  /**
+   * Called after the children of the node have been visited.
+   */
+  leave?(node: T, path: SyntaxPath): void;
+}
+
+/**
+ * A visitor for `walk()`. The `enter` and `leave` hooks are called for every
+ * node; the hooks under a node kind, such as `Relation`, only for nodes of
+ * that kind.
+ */
+export type Visitor = VisitorHooks<SyntaxNode> & {
+  readonly [K in SyntaxKind]?: VisitorHooks<NodeOfKind<K>>;
+};
+
+/**
+ * The nodes that `transform()` accepts as the replacement for a node of each
+ * kind. A replacement must fit everywhere the original node can occur.
+ */
+export interface NodeReplacements {
+  PluralRuleSet: PluralRuleSet;
+  PluralRule: PluralRule;
+  OrCondition: Condition;
+  AndCondition: Alternative;
+  Relation: Relation;
+  Expr: Expr;
+  Range: Range | Value;
+  Value: Value;
+  Samples: Samples;
+  SampleList: SampleList;
+  SampleRange: SampleRange | SampleValue;
+  SampleValue: SampleValue;
+}
+
+/**
+ * Functions that are called when `transform()` visits a node. If a function
+ * returns a node, that node replaces the original. If it returns nothing, the
+ * node is kept.
+ */
+export interface TransformerHooks<K extends SyntaxKind> {
+  /**
+   * Called before the children of the node are transformed. The children of
+   * the returned node are transformed instead.
+   */
+  enter?(node: NodeOfKind<K>, path: SyntaxPath): NodeReplacements[K] | void;
+  /**
+   * Called after the children of the node have been transformed. The node
+   * contains the transformed children.
+   */
+  leave?(node: NodeOfKind<K>, path: SyntaxPath): NodeReplacements[K] | void;
+}
+
+/**
+ * A transformer for `transform()`, with hooks for each node kind.
+ */
+export type Transformer = {
+  readonly [K in SyntaxKind]?: TransformerHooks<K>;
+};
+
+/**
+ * Visits a parse node and all of its descendants, depth first, in source
+ * order. The rules of a rule set are visited in order, followed by the
+ * samples of the 'other' category.
+ *
+ * For each node, the visitor's `enter` hook and the `enter` hook for the
+ * node's kind are called, then the children are visited, then the `leave`
+ * hook for the node's kind and the visitor's `leave` hook are called. If an
+ * `enter` hook returns false, the node's children are skipped, but its
+ * `leave` hooks are still called.
+ * @param node The node to visit.
+ * @param visitor The functions to call for each node.
+ */
+export function walk(node: SyntaxNode, visitor: Visitor): void {
+  walkNode(node, visitor, []);
+}
+
+/**
+ * Transforms a parse node and its descendants, depth first, in source order.
+ * Nodes are never modified: a node whose children are replaced is copied, with
+ * the new children, and nodes that are not replaced are reused. If nothing is
+ * replaced, the original node is returned. Copies keep the source location of
+ * the original.
+ *
+ * For each node, the `enter` hook for the node's kind may replace the node,
+ * then the children of the node are transformed, and finally the `leave` hook
+ * may replace the node again. If `enter` returns a node of another kind, the
+ * `leave` hook for that kind is called.
+ * @param node The node to transform.
+ * @param transformer The functions to call for each node.
+ * @return The transformed node.
+ */
+export function transform<T extends SyntaxNode>(
+  node: T,
+  transformer: Transformer
+): NodeReplacements[T['kind']] {
+  return transformNode(node, transformer, []);
+}
+
+function walkNode(
+  node: SyntaxNode,
+  visitor: Visitor,
+  path: SyntaxPath
+): void {
+  const hooks = visitor[node.kind] as VisitorHooks<SyntaxNode> | undefined;
+
+  let visitChildren = true;
+  if (visitor.enter && visitor.enter(node, path) === false) {
+    visitChildren = false;
+  }
+  if (hooks && hooks.enter && hooks.enter(node, path) === false) {
+    visitChildren = false;
+  }
+
+  if (visitChildren) {
+    const childPath = [...path, node];
+    for (const child of getChildren(node)) {
+      walkNode(child, visitor, childPath);
+    }
+  }
+
+  if (hooks && hooks.leave) {
+    hooks.leave(node, path);
+  }
+  if (visitor.leave) {
+    visitor.leave(node, path);
+  }
+}
+
+function getChildren(node: SyntaxNode): SyntaxNode[] {
+  switch (node.kind) {
+    case 'PluralRuleSet': {
+      const children: SyntaxNode[] = Array.from(node.rules.values());
+      if (node.other) {
+        children.push(node.other);
+      }
+      return children;
+    }
+    case 'PluralRule':
+      return node.samples
+        ? [node.condition, node.samples]
+        : [node.condition];
+    case 'OrCondition':
+      return node.alternatives.slice();
+    case 'AndCondition':
+      return node.relations.slice();
+    case 'Relation':
+      return [node.expr, ...node.ranges];
+    case 'Expr':
+      return node.modDivisor ? [node.modDivisor] : [];
+    case 'Range':
+    case 'SampleRange':
+      return [node.start, node.end];
+    case 'Samples': {
+      const children: SyntaxNode[] = [];
+      if (node.integer) {
+        children.push(node.integer);
+      }
+      if (node.decimal) {
+        children.push(node.decimal);
+      }
+      return children;
+    }
+    case 'SampleList':
+      return node.ranges.slice();
+    case 'Value':
+    case 'SampleValue':
+      return [];
+  }
+}
+
+function transformNode<T extends SyntaxNode>(
+  node: T,
+  transformer: Transformer,
+  path: SyntaxPath
+): NodeReplacements[T['kind']] {
+  let current: SyntaxNode = node;
+
+  const enter = getTransformerHooks(transformer, current.kind).enter;
+  if (enter) {
+    current = enter(current, path) || current;
+  }
+
+  current = transformChildren(current, transformer, [...path, current]);
+
+  const leave = getTransformerHooks(transformer, current.kind).leave;
+  if (leave) {
+    current = leave(current, path) || current;
+  }
+
+  return current as NodeReplacements[T['kind']];
+}
+
+function getTransformerHooks(
+  transformer: Transformer,
+  kind: SyntaxKind
+): TransformerHooks<SyntaxKind> {
+  // The hooks for a kind only ever receive nodes of that kind.
+  return (transformer[kind] || {}) as TransformerHooks<SyntaxKind>;
+}
+
+function transformChildren(
+  node: SyntaxNode,
+  transformer: Transformer,
+  path: SyntaxPath
+): SyntaxNode {
+  const visit = <T extends SyntaxNode>(child: T) =>
+    transformNode(child, transformer, path);
+
+  switch (node.kind) {
+    case 'PluralRuleSet': {
+      let changed = false;
+      const rules = new Map<PluralCategory, PluralRule>();
+      for (const [category, rule] of node.rules) {
+        const newRule = visit(rule);
+        changed = changed || newRule !== rule;
+        rules.set(category, newRule);
+      }
+      const other = node.other && visit(node.other);
+      return changed || other !== node.other
+        ? { ...node, rules: changed ? rules : node.rules, other }
+        : node;
+    }
+    case 'PluralRule': {
+      const condition = visit(node.condition);
+      const samples = node.samples && visit(node.samples);
+      return condition !== node.condition || samples !== node.samples
+        ? { ...node, condition, samples }
+        : node;
+    }
+    case 'OrCondition': {
+      const alternatives = transformList(node.alternatives, visit);
+      return alternatives !== node.alternatives
+        ? { ...node, alternatives }
+        : node;
+    }
+    case 'AndCondition': {
+      const relations = transformList(node.relations, visit);
+      return relations !== node.relations
+        ? { ...node, relations }
+        : node;
+    }
+    case 'Relation': {
+      const expr = visit(node.expr);
+      const ranges = transformList(node.ranges, visit);
+      return expr !== node.expr || ranges !== node.ranges
+        ? { ...node, expr, ranges }
+        : node;
+    }
+    case 'Expr': {
+      const modDivisor = node.modDivisor && visit(node.modDivisor);
+      return modDivisor !== node.modDivisor
+        ? { ...node, modDivisor }
+        : node;
+    }
+    case 'Range': {
+      const start = visit(node.start);
+      const end = visit(node.end);
+      return start !== node.start || end !== node.end
+        ? { ...node, start, end }
+        : node;
+    }
+    case 'Samples': {
+      const integer = node.integer && visit(node.integer);
+      const decimal = node.decimal && visit(node.decimal);
+      return integer !== node.integer || decimal !== node.decimal
+        ? { ...node, integer, decimal }
+        : node;
+    }
+    case 'SampleList': {
+      const ranges = transformList(node.ranges, visit);
+      return ranges !== node.ranges
+        ? { ...node, ranges }
+        : node;
+    }
+    case 'SampleRange': {
+      const start = visit(node.start);
+      const end = visit(node.end);
+      return start !== node.start || end !== node.end
+        ? { ...node, start, end }
+        : node;
+    }
+    case 'Value':
+    case 'SampleValue':
+      return node;
+  }
+}
+
+/**
+ * Transforms every node in a list. Returns the original list if no node was
+ * replaced.
+ */
+function transformList<T extends SyntaxNode, U>(
+  list: readonly T[],
+  visit: (node: T) => U
+): readonly (T | U)[] {
+  let changed = false;
+  const result = list.map(node => {
+    const newNode = visit(node);
+    changed = changed || newNode !== node as unknown;
+    return newNode;
+  });
+  return changed ? result : list;
+}
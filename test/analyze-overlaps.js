@@ -0,0 +1,107 @@
+const assert = require('assert');
+const { parseRuleSet, getPluralCategory, analyzeOverlaps } = require('../dist');
+
+describe('analyzeOverlaps()', () => {
+  const overlaps = (source, expected) => {
+    const rules = parseRuleSet(source);
+    const actual = analyzeOverlaps(rules);
+    assert.deepStrictEqual(actual, expected);
+
+    // Every witness must actually match both categories, and the first one
+    // should win.
+    for (const { categories, witnesses } of actual) {
+      for (const witness of witnesses) {
+        assert.strictEqual(getPluralCategory(rules, witness), categories[0]);
+        const [, second] = categories;
+        const without = parseRuleSet(source);
+        without.rules.delete(categories[0]);
+        assert.strictEqual(getPluralCategory(without, witness), second);
+      }
+    }
+  };
+
+  it('finds no overlaps in an empty rule set', () => {
+    overlaps('', []);
+    overlaps('other: @integer 1~3', []);
+  });
+
+  it('finds no overlaps in valid rule sets', () => {
+    overlaps(`
+      one: v = 0 and i % 10 = 1 and i % 100 != 11 or f % 10 = 1 and f % 100 != 11;
+      few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14 or f % 10 = 2..4 and f % 100 != 12..14
+    `, []);
+    overlaps(`
+      zero: n % 10 = 0 or n % 100 = 11..19 or v = 2 and f % 100 = 11..19;
+      one: n % 10 = 1 and n % 100 != 11 or v = 2 and f % 10 = 1 and f % 100 != 11 or v != 2 and f % 10 = 1
+    `, []);
+    overlaps(`
+      zero: n = 0;
+      one: n = 1;
+      two: n = 2;
+      few: n % 100 = 3..10;
+      many: n % 100 = 11..99
+    `, []);
+  });
+
+  it('finds no overlaps in the CLDR rules for French', () => {
+    overlaps(`
+      one: i = 0,1 @integer 0, 1 @decimal 0.0~1.5;
+      many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5 @integer 1000000, 1c6, 2c6, 3c6, 4c6, 5c6, 6c6, … @decimal 1.0000001c6, 1.1c6, 2.0000001c6, 2.1c6, 3.0000001c6, 3.1c6, …;
+      other: @integer 2~17, 100, 1000, 10000, 100000, 1c3, 2c3, 3c3, 4c3, 5c3, 6c3, … @decimal 2.0~3.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, 1.0001c3, 1.1c3, 2.0001c3, 2.1c3, 3.0001c3, 3.1c3, …
+    `, []);
+  });
+
+  it('only considers compact numbers with an integer digit', () => {
+    // 5 cannot be written with the exponent 3; 0.005c3 is not a number.
+    overlaps('one: e = 3; two: i = 5', []);
+    overlaps('one: e = 3; two: i % 10 = 5', [
+      { categories: ['one', 'two'], witnesses: ['1.005c3', '1.0051c3'] },
+    ]);
+    overlaps('one: c = 20; two: i % 7 = 3', [
+      {
+        categories: ['one', 'two'],
+        witnesses: ['1.00000000000000000001c20', '1.000000000000000000011c20'],
+      },
+    ]);
+  });
+
+  it('finds overlapping integers', () => {
+    overlaps('one: n = 1; few: n mod 10 = 1', [
+      { categories: ['one', 'few'], witnesses: ['1'] },
+    ]);
+    overlaps('one: n % 10 = 1; two: n % 100 = 11..21', [
+      { categories: ['one', 'two'], witnesses: ['11'] },
+    ]);
+  });
+
+  it('finds overlapping decimals', () => {
+    overlaps('one: i = 1; two: v = 2', [
+      { categories: ['one', 'two'], witnesses: ['1.00', '1.10'] },
+    ]);
+    overlaps('one: n within 1..2; two: i = 1 and f = 5', [
+      { categories: ['one', 'two'], witnesses: ['1.5'] },
+    ]);
+  });
+
+  it('limits the number of witnesses', () => {
+    const rules = parseRuleSet('one: n % 10 = 1; two: n % 100 = 1..99');
+    assert.deepStrictEqual(analyzeOverlaps(rules, 1), [
+      { categories: ['one', 'two'], witnesses: ['1'] },
+    ]);
+  });
+
+  it('checks every pair of categories', () => {
+    overlaps('a: n = 1..3; b: n = 3..5; c: n = 5, 1', [
+      { categories: ['a', 'b'], witnesses: ['3'] },
+      { categories: ['a', 'c'], witnesses: ['1'] },
+      { categories: ['b', 'c'], witnesses: ['5'] },
+    ]);
+  });
+
+  it('rejects rules that are too complex to analyze', () => {
+    assert.throws(
+      () => analyzeOverlaps(parseRuleSet('one: i % 1000000 = 0; few: i % 999983 = 1')),
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,140 @@
+const assert = require('assert');
+const { parseRuleSet, checkPluralBranches, selectPluralBranch } = require('../dist');
+
+describe('checkPluralBranches()', () => {
+  const en = parseRuleSet('one: i = 1 and v = 0');
+  const pl = parseRuleSet(`
+    one: i = 1 and v = 0;
+    few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+    many: v = 0 and i != 1 and i % 10 = 0..1 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 12..14
+  `);
+  const fr = parseRuleSet(`
+    one: i = 0,1;
+    many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5
+  `);
+
+  const codes = findings => findings.map(f => [f.code, f.category, f.branch]);
+
+  it('accepts complete branches', () => {
+    assert.deepStrictEqual(checkPluralBranches(en, ['one', 'other']), []);
+    assert.deepStrictEqual(checkPluralBranches(en, ['other', 'one', '=0']), []);
+    assert.deepStrictEqual(checkPluralBranches(pl, ['one', 'few', 'many', 'other']), []);
+    assert.deepStrictEqual(checkPluralBranches(parseRuleSet(''), ['other']), []);
+  });
+
+  it('finds missing categories', () => {
+    const findings = checkPluralBranches(pl, ['one', 'other']);
+    assert.deepStrictEqual(codes(findings), [
+      ['missing-category', 'few', null],
+      ['missing-category', 'many', null],
+    ]);
+    assert.strictEqual(findings[0].message, "Missing a branch for category 'few'");
+    assert.deepStrictEqual(codes(checkPluralBranches(en, ['one'])), [
+      ['missing-category', 'other', null],
+    ]);
+  });
+
+  it('does not require categories covered by exact branches', () => {
+    assert.deepStrictEqual(checkPluralBranches(en, ['=1', 'other']), []);
+    assert.deepStrictEqual(checkPluralBranches(pl, ['=1', 'few', 'many', 'other']), []);
+    assert.deepStrictEqual(checkPluralBranches(fr, ['=0', '=1', 'many', 'other']), [
+      {
+        code: 'missing-category',
+        message: "Missing a branch for category 'one'",
+        category: 'one',
+        branch: null,
+        exactBranches: [],
+      },
+    ]);
+  });
+
+  it('finds unreachable branches', () => {
+    const findings = checkPluralBranches(en, ['one', 'few', 'other', 'zero']);
+    assert.deepStrictEqual(codes(findings), [
+      ['unreachable-branch', 'few', 'few'],
+      ['unreachable-branch', 'zero', 'zero'],
+    ]);
+    assert.strictEqual(findings[0].message, "Category 'few' is not defined by the rule set");
+
+    const shadowed = parseRuleSet('one: n = 1; two: n = 1');
+    assert.deepStrictEqual(checkPluralBranches(shadowed, ['one', 'two', 'other']), [
+      {
+        code: 'unreachable-branch',
+        message: "No number is in category 'two'",
+        category: 'two',
+        branch: 'two',
+        exactBranches: [],
+      },
+    ]);
+  });
+
+  it('finds branches shadowed by exact values', () => {
+    assert.deepStrictEqual(checkPluralBranches(en, ['=0', '=1', 'one', 'other']), [
+      {
+        code: 'shadowed-branch',
+        message: "Every number in category 'one' is matched by =1",
+        category: 'one',
+        branch: 'one',
+        exactBranches: ['=1'],
+      },
+    ]);
+    // 1.0 is in 'one' but is also matched by =1.
+    const n1 = parseRuleSet('one: n = 1');
+    assert.deepStrictEqual(codes(checkPluralBranches(n1, ['=1.0', 'one', 'other'])), [
+      ['shadowed-branch', 'one', 'one'],
+    ]);
+    assert.deepStrictEqual(checkPluralBranches(n1, ['=1.5', 'one', 'other']), []);
+    // 0.5 is in 'one' in French.
+    assert.deepStrictEqual(checkPluralBranches(fr, ['=0', '=1', 'one', 'many', 'other']), []);
+    // Large exact values are matched by numbers with an exponent.
+    const m = parseRuleSet('many: n = 1000000');
+    assert.deepStrictEqual(codes(checkPluralBranches(m, ['=1000000', 'many', 'other'])), [
+      ['shadowed-branch', 'many', 'many'],
+    ]);
+  });
+
+  it('applies the offset to keyword branches only', () => {
+    const offset = { offset: 1 };
+    // With offset 1, the value 2 is in 'one'.
+    assert.deepStrictEqual(checkPluralBranches(en, ['=1', 'other']), []);
+    assert.deepStrictEqual(codes(checkPluralBranches(en, ['=1', 'other'], offset)), [
+      ['missing-category', 'one', null],
+    ]);
+    assert.strictEqual(selectPluralBranch(en, 2, ['=1', 'other'], offset), 'other');
+    assert.deepStrictEqual(codes(checkPluralBranches(en, ['=0', '=1', 'one', 'other'])), [
+      ['shadowed-branch', 'one', 'one'],
+    ]);
+    assert.deepStrictEqual(checkPluralBranches(en, ['=0', '=1', 'one', 'other'], offset), []);
+    assert.strictEqual(selectPluralBranch(en, 2, ['=0', '=1', 'one', 'other'], offset), 'one');
+    // The value 0 is seen as -1, which is in 'one' as well, so 'one' is only
+    // shadowed if both 0 and 2 are matched exactly.
+    assert.deepStrictEqual(checkPluralBranches(en, ['=2', 'one', 'other'], offset), []);
+    assert.strictEqual(selectPluralBranch(en, 0, ['=2', 'one', 'other'], offset), 'one');
+    assert.deepStrictEqual(checkPluralBranches(en, ['=0', '=2', 'one', 'other'], offset), [
+      {
+        code: 'shadowed-branch',
+        message: "Every number in category 'one' is matched by =0, =2",
+        category: 'one',
+        branch: 'one',
+        exactBranches: ['=0', '=2'],
+      },
+    ]);
+    assert.throws(() => checkPluralBranches(en, ['other'], { offset: -1 }), /Invalid plural offset: -1/);
+    assert.throws(() => checkPluralBranches(en, ['other'], { offset: 0.5 }), RangeError);
+  });
+
+  it('maps gettext form indexes to categories', () => {
+    assert.deepStrictEqual(checkPluralBranches(pl, [0, 1, 2, 3]), []);
+    assert.deepStrictEqual(codes(checkPluralBranches(pl, [0, 1])), [
+      ['missing-category', 'many', null],
+      ['missing-category', 'other', null],
+    ]);
+    assert.throws(() => checkPluralBranches(pl, [0, 4]), /Plural form index out of range: 4/);
+    assert.throws(() => checkPluralBranches(pl, [-1]), RangeError);
+  });
+
+  it('throws on invalid selectors', () => {
+    assert.throws(() => checkPluralBranches(en, ['=one', 'other']), /Invalid plural selector: =one/);
+    assert.throws(() => checkPluralBranches(en, ['', 'other']), RangeError);
+  });
+});
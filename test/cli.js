@@ -0,0 +1,201 @@
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+describe('cldr-plural-rules', () => {
+  const cli = path.join(__dirname, '../dist/cli.js');
+  let dir;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cldr-plural-rules-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeRules = (name, source) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, source);
+    return file;
+  };
+
+  const run = (args, input = '') => {
+    const result = spawnSync(process.execPath, [cli, ...args], {
+      input,
+      encoding: 'utf8',
+    });
+    return {
+      status: result.status,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  };
+
+  it('prints the category of numbers on the command line', () => {
+    const file = writeRules('en.txt', 'one: i = 1 and v = 0');
+    assert.deepStrictEqual(run(['eval', file, '1', '1.0', '2', '-1']), {
+      status: 0,
+      stdout: '1\tone\n1.0\tother\n2\tother\n-1\tone\n',
+      stderr: '',
+    });
+  });
+
+  it('prints the category of numbers from stdin', () => {
+    const file = writeRules('en.txt', 'one: i = 1 and v = 0');
+    assert.deepStrictEqual(run(['eval', file], '1\n2 3\n\n1c3\n'), {
+      status: 0,
+      stdout: '1\tone\n2\tother\n3\tother\n1c3\tother\n',
+      stderr: '',
+    });
+  });
+
+  it('reports invalid numbers', () => {
+    const file = writeRules('en.txt', 'one: i = 1 and v = 0');
+    assert.deepStrictEqual(run(['eval', file, 'x', '1', '1abc', '1.', '1e400']), {
+      status: 1,
+      stdout: '1\tone\n',
+      stderr:
+        'cldr-plural-rules: invalid number: x\n' +
+        'cldr-plural-rules: invalid number: 1abc\n' +
+        'cldr-plural-rules: invalid number: 1.\n' +
+        'cldr-plural-rules: Number is not finite: 1e400\n',
+    });
+    assert.deepStrictEqual(run(['eval', file], '1c3 -1.0 +1\n2abc\n'), {
+      status: 1,
+      stdout: '1c3\tother\n-1.0\tother\n+1\tone\n',
+      stderr: 'cldr-plural-rules: invalid number: 2abc\n',
+    });
+  });
+
+  it('reports every syntax error with its location', () => {
+    const file = writeRules('bad.txt', 'one: n = 1;\nfew: n = ;\nmany: n is 1..2');
+    const result = run(['eval', file, '1']);
+    assert.strictEqual(result.status, 1);
+    assert.strictEqual(result.stdout, '');
+    assert.deepStrictEqual(
+      result.stderr.split('\n').map(line => line.split(': error: ')[0]),
+      [`${file}:2:10`, `${file}:3:13`, '']
+    );
+  });
+
+  it('passes a valid rule file', () => {
+    const file = writeRules('ru.txt', `
+      one: v = 0 and i % 10 = 1 and i % 100 != 11 @integer 1, 21, 31;
+      few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14 @integer 2~4, 22;
+      other: @integer 0, 5~19 @decimal 0.0~1.5
+    `);
+    assert.deepStrictEqual(run(['check', file]), {
+      status: 0,
+      stdout: '',
+      stderr: '',
+    });
+  });
+
+  it('reports mismatched samples, overlaps and lint findings in order', () => {
+    const file = writeRules('check.txt', [
+      'one: n = 1 @integer 1, 2;',
+      'few: n % 10 = 1..3 and n != 3,3;',
+      'other: @integer 5',
+    ].join('\n'));
+    const result = run(['check', file]);
+    assert.strictEqual(result.status, 1);
+    assert.strictEqual(result.stdout, '');
+    assert.deepStrictEqual(result.stderr.split('\n'), [
+      `${file}:1:24: error: Sample 2 is listed under 'one' but has category 'few'`,
+      `${file}:2:6: error: Categories 'one' and 'few' overlap, e.g. 1`,
+      `${file}:2:31: warning: Value 3 is already covered by the range list [redundant-range]`,
+      '',
+    ]);
+  });
+
+  it('reports invalid sample ranges with their location', () => {
+    const file = writeRules('ranges.txt', [
+      'one: n = 1 @integer 1, 2 @decimal 1.0~1.25;',
+      'other: @integer 3~2, 4, 1',
+    ].join('\n'));
+    const result = run(['check', file]);
+    assert.strictEqual(result.status, 1);
+    assert.deepStrictEqual(result.stderr.split('\n'), [
+      `${file}:1:24: error: Sample 2 is listed under 'one' but has category 'other'`,
+      `${file}:1:35: error: Sample range bounds must have the same number of fraction digits: 1.0~1.25`,
+      `${file}:2:17: error: Sample range start must not be greater than its end: 3~2`,
+      `${file}:2:25: error: Sample 1 is listed under 'other' but has category 'one'`,
+      '',
+    ]);
+  });
+
+  it('warns when the rules are too complex to check for overlaps', () => {
+    const file = writeRules('complex.txt', 'one: i % 1000000 = 0; few: i % 999983 = 1');
+    const result = run(['check', file]);
+    assert.strictEqual(result.status, 0);
+    assert.match(
+      result.stderr,
+      /^.*complex\.txt: warning: Overlaps were not checked: The rules are too complex to analyze: .*\n$/
+    );
+  });
+
+  it('does not fail on warnings', () => {
+    const file = writeRules('warn.txt', 'one: n = 1,1');
+    const result = run(['check', file]);
+    assert.strictEqual(result.status, 0);
+    assert.match(result.stderr, /^.*:1:12: warning: .* \[redundant-range\]\n$/);
+  });
+
+  it('pretty-prints rules', () => {
+    const file = writeRules('fmt.txt', 'one:n is 1 or n in 5..3,2 @integer 1');
+    assert.deepStrictEqual(run(['format', file]), {
+      status: 0,
+      stdout: 'one: n = 1 or n = 5..3,2\n  @integer 1\n',
+      stderr: '',
+    });
+  });
+
+  it('normalizes rules', () => {
+    const file = writeRules('fmt.txt', 'one: n % 10 = 3,1,2 or n = 1');
+    assert.deepStrictEqual(run(['format', '--normalize', file]), {
+      status: 0,
+      stdout: 'one: n % 10 = 1..3 or n = 1\n',
+      stderr: '',
+    });
+  });
+
+  it('normalizes rules that are too complex to analyze', () => {
+    const file = writeRules('complex.txt', 'few: i % 1000000 = 0; one: i % 999983 = 1');
+    assert.deepStrictEqual(run(['format', '--normalize', file]), {
+      status: 0,
+      stdout: 'few: i % 1000000 = 0;\none: i % 999983 = 1\n',
+      stderr: '',
+    });
+  });
+
+  it('rejects invalid command lines', () => {
+    const file = writeRules('en.txt', 'one: i = 1 and v = 0');
+    for (const args of [
+      [],
+      ['frobnicate', file],
+      ['eval'],
+      ['check', file, '1'],
+      ['eval', '--normalize', file],
+      ['eval', '--bogus', file],
+    ]) {
+      const result = run(args);
+      assert.strictEqual(result.status, 2, args.join(' '));
+      assert.match(result.stderr, /^cldr-plural-rules: .*\n\nUsage:/);
+    }
+  });
+
+  it('prints help', () => {
+    const result = run(['--help']);
+    assert.strictEqual(result.status, 0);
+    assert.match(result.stdout, /^Usage: cldr-plural-rules/);
+  });
+
+  it('reports unreadable files', () => {
+    const result = run(['check', path.join(dir, 'missing.txt')]);
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /^cldr-plural-rules: cannot read /);
+  });
+});
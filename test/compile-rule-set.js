@@ -0,0 +1,101 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  parseRule,
+  getPluralCategory,
+  testPluralRule,
+  compileRuleSet,
+  compileRule,
+} = require('../dist');
+
+describe('compileRuleSet()', () => {
+  // A mix of integers, decimals with and without trailing zeros, and values
+  // with exponents.
+  const inputs = [
+    0, 1, 2, 3, 5, 11, 12, 21, 22, 101, 111, 1000000, -1, -22, 1.5, 0.1,
+    '0', '1', '1.0', '1.00', '0.1', '0.10', '2.5', '10.1', '11.11', '21.0',
+    '100.2', '1c3', '1c6', '1.1c6', '2.0000001c6', '-1', '-1.5',
+  ];
+
+  const matchesInterpreter = source => {
+    const rules = parseRuleSet(source);
+    const compiled = compileRuleSet(rules);
+    for (const n of inputs) {
+      assert.strictEqual(
+        compiled(n),
+        getPluralCategory(rules, n),
+        `${JSON.stringify(n)} should match the interpreter`
+      );
+    }
+  };
+
+  it('returns other for an empty rule set', () => {
+    const compiled = compileRuleSet(parseRuleSet(''));
+    assert.strictEqual(compiled(0), 'other');
+    assert.strictEqual(compiled('1.5'), 'other');
+  });
+
+  it('matches the interpreter for integer rules', () => {
+    matchesInterpreter(`
+      one: n mod 10 = 1 and n != 11;
+      few: n mod 100 = 2..4
+    `);
+    matchesInterpreter(`
+      zero: n = 0;
+      one: n = 1;
+      two: n = 2;
+      few: n % 100 = 3..10;
+      many: n % 100 = 11..99
+    `);
+  });
+
+  it('matches the interpreter for fraction rules', () => {
+    matchesInterpreter(`
+      one: i = 1 and v = 0
+    `);
+    matchesInterpreter(`
+      zero: n % 10 = 0 or n % 100 = 11..19 or v = 2 and f % 100 = 11..19;
+      one: n % 10 = 1 and n % 100 != 11 or v = 2 and f % 10 = 1 and f % 100 != 11 or v != 2 and f % 10 = 1
+    `);
+    matchesInterpreter(`
+      one: n = 1 or t != 0 and i = 0,1
+    `);
+    matchesInterpreter(`
+      one: w = 1 and t = 1..5
+    `);
+  });
+
+  it('matches the interpreter for exponent rules', () => {
+    matchesInterpreter(`
+      one: i = 0,1;
+      many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5
+    `);
+    matchesInterpreter(`
+      one: c = 3
+    `);
+  });
+
+  it('matches the interpreter for legacy relations', () => {
+    matchesInterpreter(`
+      one: n within 0..2 and n is not 2;
+      few: n mod 10 not within 3..4;
+      many: n not in 5..7, 9
+    `);
+  });
+
+  it('rejects non-finite numbers', () => {
+    const compiled = compileRuleSet(parseRuleSet('one: n = 1'));
+    assert.throws(() => compiled(NaN), /not finite/);
+    assert.throws(() => compiled('foo'), /not finite/);
+  });
+});
+
+describe('compileRule()', () => {
+  it('matches testPluralRule()', () => {
+    const rule = parseRule('v = 0 and i % 10 = 2..4 and i % 100 != 12..14');
+    const compiled = compileRule(rule);
+    for (const n of [0, 1, 2, 4, 5, 12, 14, 22, 24, 112, '2.0', '22.5']) {
+      assert.strictEqual(compiled(n), testPluralRule(rule, n), String(n));
+    }
+  });
+});
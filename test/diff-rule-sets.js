@@ -0,0 +1,100 @@
+const assert = require('assert');
+const { parseRuleSet, getPluralCategory, diffRuleSets } = require('../dist');
+
+describe('diffRuleSets()', () => {
+  const diff = (sourceA, sourceB, expected) => {
+    const a = parseRuleSet(sourceA);
+    const b = parseRuleSet(sourceB);
+    const actual = diffRuleSets(a, b);
+    assert.deepStrictEqual(actual, expected);
+
+    // Every witness must actually change category.
+    for (const { categories, witnesses } of actual) {
+      for (const witness of witnesses) {
+        assert.strictEqual(getPluralCategory(a, witness), categories[0], witness);
+        assert.strictEqual(getPluralCategory(b, witness), categories[1], witness);
+      }
+    }
+  };
+
+  it('finds no differences between identical rule sets', () => {
+    diff('', '', []);
+    diff('one: i = 1 and v = 0', 'one: i = 1 and v = 0', []);
+  });
+
+  it('ignores formatting, relation order and samples', () => {
+    diff('one: i = 1 and v = 0 @integer 1', 'one:v=0 and i is 1', []);
+    diff('one: n mod 10 in 2..4', 'one: n % 10 = 2,3,4', []);
+    diff('one: i = 0,1', 'one: i = 0..1', []);
+    diff('one: n = 1 or n = 2', 'one: n = 2 or n = 1', []);
+  });
+
+  it('finds no differences between equivalent conditions', () => {
+    diff('one: n within 0..2 and n != 2', 'one: i = 0,1', []);
+    diff('one: n != 1', 'one: n != 1 and n = 0..100 or n != 0..100', []);
+  });
+
+  it('finds numbers that change category', () => {
+    diff('one: n = 1', 'one: i = 1 and v = 0', [
+      { categories: ['one', 'other'], witnesses: ['1.0'] },
+    ]);
+    diff(
+      'one: n % 10 = 1 and n % 100 != 11; few: n % 10 = 2..4 and n % 100 != 12..14',
+      'one: n % 10 = 1 and n % 100 != 11; few: n % 10 = 2..4 and n % 100 != 12..14; many: n % 10 = 0 or n % 10 = 5..9 or n % 100 = 11..14',
+      [{ categories: ['other', 'many'], witnesses: ['0', '5', '11'] }]
+    );
+  });
+
+  it('groups differences by category pair', () => {
+    diff('one: n = 1; two: n = 2', 'one: n = 2; two: n = 1', [
+      { categories: ['one', 'two'], witnesses: ['1'] },
+      { categories: ['two', 'one'], witnesses: ['2'] },
+    ]);
+    diff('one: i = 1', 'one: i = 1 and v = 0; few: i = 2', [
+      { categories: ['other', 'few'], witnesses: ['2', '2.0', '2.1'] },
+      { categories: ['one', 'other'], witnesses: ['1.0', '1.1'] },
+    ]);
+  });
+
+  it('accounts for category order', () => {
+    diff('one: n = 1; few: n = 1..3', 'few: n = 1..3; one: n = 1', [
+      { categories: ['one', 'few'], witnesses: ['1'] },
+    ]);
+  });
+
+  it('finds differences in exponents', () => {
+    diff(
+      'one: i = 0,1; many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5',
+      'one: i = 0,1',
+      [
+        { categories: ['many', 'other'], witnesses: ['1000000', '1c6', '1.000002c6'] },
+      ]
+    );
+  });
+
+  it('limits the number of witnesses', () => {
+    const a = parseRuleSet('');
+    const b = parseRuleSet('one: n % 10 = 1');
+    assert.deepStrictEqual(diffRuleSets(a, b, 1), [
+      { categories: ['other', 'one'], witnesses: ['1'] },
+    ]);
+  });
+
+  it('compares rules up to the scan limit', () => {
+    // The least common multiple of the divisors, 3998000, is just within the
+    // limit.
+    diff('one: i % 2000 = 1 and i % 3998 = 2', 'one: n = 0 and n = 1', []);
+  });
+
+  it('rejects rules that are too complex to compare', () => {
+    for (const source of [
+      'one: i % 2000 = 1 and i % 4002 = 2',
+      'one: i % 1000000 = 0 and i % 999983 = 1',
+    ]) {
+      assert.throws(
+        () => diffRuleSets(parseRuleSet(source), parseRuleSet('one: n = 0 and n = 1')),
+        RangeError
+      );
+    }
+  });
+});
@@ -0,0 +1,74 @@
+const assert = require('assert');
+const { parseRule, expandSamples } = require('../dist');
+
+describe('expandSamples()', () => {
+  const sampleList = source => parseRule(`n = 0 @integer ${source}`).samples.integer;
+
+  const expands = (source, expected, infinite = false) => {
+    const expanded = expandSamples(sampleList(source));
+    assert.deepStrictEqual([...expanded], expected);
+    assert.strictEqual(expanded.infinite, infinite);
+  };
+
+  const rejects = (source, message) => {
+    assert.throws(() => expandSamples(sampleList(source)), new RangeError(message));
+  };
+
+  it('expands single values', () => {
+    expands('1, 5, 100', ['1', '5', '100']);
+  });
+
+  it('expands integer ranges', () => {
+    expands('2~4, 22~24', ['2', '3', '4', '22', '23', '24']);
+    expands('7~7', ['7']);
+    expands('98~101', ['98', '99', '100', '101']);
+  });
+
+  it('expands decimal ranges in units of the last fraction digit', () => {
+    expands('1.3~1.5', ['1.3', '1.4', '1.5']);
+    expands('0.8~1.1', ['0.8', '0.9', '1.0', '1.1']);
+    expands('0.00~0.04', ['0.00', '0.01', '0.02', '0.03', '0.04']);
+    expands('9.98~10.01', ['9.98', '9.99', '10.00', '10.01']);
+  });
+
+  it('preserves the source text of values', () => {
+    expands('1.0, 1.00, 1c6, 1.1c6, 2.0000001c6', ['1.0', '1.00', '1c6', '1.1c6', '2.0000001c6']);
+  });
+
+  it('expands ranges with exponents', () => {
+    expands('1c3~3c3', ['1c3', '2c3', '3c3']);
+    expands('1.8c6~2.1c6', ['1.8c6', '1.9c6', '2.0c6', '2.1c6']);
+  });
+
+  it('does not lose precision', () => {
+    expands('0.10000000000000000001~0.10000000000000000003', [
+      '0.10000000000000000001',
+      '0.10000000000000000002',
+      '0.10000000000000000003',
+    ]);
+  });
+
+  it('reports infinite lists', () => {
+    expands('1, 2, …', ['1', '2'], true);
+    expands('1~3, ...', ['1', '2', '3'], true);
+  });
+
+  it('rejects ranges with mismatched fraction digits', () => {
+    rejects('1.3~1.50', 'Sample range bounds must have the same number of fraction digits: 1.3~1.50');
+    rejects('1~2.0', 'Sample range bounds must have the same number of fraction digits: 1~2.0');
+  });
+
+  it('rejects ranges with mismatched exponents', () => {
+    rejects('1c3~2c6', 'Sample range bounds must have the same exponent: 1c3~2c6');
+    rejects('1c3~2', 'Sample range bounds must have the same exponent: 1c3~2');
+  });
+
+  it('rejects reversed ranges', () => {
+    rejects('22~20', 'Sample range start must not be greater than its end: 22~20');
+  });
+
+  it('validates before iterating', () => {
+    // The invalid range comes last, but the error is thrown immediately.
+    rejects('1, 2~3, 5~4', 'Sample range start must not be greater than its end: 5~4');
+  });
+});
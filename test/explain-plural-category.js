@@ -0,0 +1,142 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  getPluralCategory,
+  explainPluralCategory,
+} = require('../dist');
+
+describe('explainPluralCategory()', () => {
+  // Lithuanian
+  const lt = parseRuleSet(`
+    one: n % 10 = 1 and n % 100 != 11..19;
+    few: n % 10 = 2..9 and n % 100 != 11..19;
+    many: f != 0
+  `);
+
+  // Reduces a condition trace to its kind, result and relation values.
+  const summarize = trace => {
+    switch (trace.kind) {
+      case 'OrCondition':
+        return {
+          or: trace.matched,
+          alternatives: trace.alternatives.map(summarize),
+        };
+      case 'AndCondition':
+        return {
+          and: trace.matched,
+          relations: trace.relations.map(summarize),
+        };
+      case 'Relation':
+        return [trace.value, trace.match && trace.match.kind, trace.matched];
+    }
+  };
+
+  it('returns the operands and category', () => {
+    const { operands, category } = explainPluralCategory(lt, '0.1');
+    assert.strictEqual(category, 'many');
+    assert.deepStrictEqual(
+      { ...operands },
+      { n: 0.1, i: 0, v: 1, w: 1, f: 1, t: 1, c: 0, e: 0 }
+    );
+  });
+
+  it('traces every rule that was tried', () => {
+    const { rules } = explainPluralCategory(lt, '0.1');
+    assert.deepStrictEqual(
+      rules.map(r => [r.category, r.matched, summarize(r.condition)]),
+      [
+        ['one', false, {
+          and: false,
+          relations: [['0.1', null, false], ['0.1', null, true]],
+        }],
+        ['few', false, {
+          and: false,
+          relations: [['0.1', null, false], ['0.1', null, true]],
+        }],
+        ['many', true, ['1', null, true]],
+      ]
+    );
+    assert.strictEqual(rules[2].rule, lt.rules.get('many'));
+  });
+
+  it('stops at the first matching rule', () => {
+    const { category, rules } = explainPluralCategory(lt, 21);
+    assert.strictEqual(category, 'one');
+    assert.deepStrictEqual(
+      rules.map(r => [r.category, summarize(r.condition)]),
+      [['one', {
+        and: true,
+        relations: [['1', 'Value', true], ['21', null, true]],
+      }]]
+    );
+  });
+
+  it('traces every rule when none matches', () => {
+    const { category, rules } = explainPluralCategory(lt, 11);
+    assert.strictEqual(category, 'other');
+    assert.deepStrictEqual(rules.map(r => r.category), ['one', 'few', 'many']);
+    assert.deepStrictEqual(summarize(rules[0].condition).relations, [
+      ['1', 'Value', true],
+      ['11', 'Range', false],
+    ]);
+  });
+
+  it('evaluates every alternative', () => {
+    const rules = parseRuleSet('one: i = 1 or v = 0 and n within 0..2 or n = 3');
+    const { rules: [{ condition }] } = explainPluralCategory(rules, 1);
+    assert.deepStrictEqual(summarize(condition), {
+      or: true,
+      alternatives: [
+        ['1', 'Value', true],
+        { and: true, relations: [['0', 'Value', true], ['1', 'Range', true]] },
+        ['1', null, false],
+      ],
+    });
+  });
+
+  it('reports the first matching range', () => {
+    const rules = parseRuleSet('one: n % 100 = 1, 3..5, 4, 5..10');
+    const { rules: [trace] } = explainPluralCategory(rules, 104);
+    assert.strictEqual(trace.condition.value, '4');
+    assert.strictEqual(trace.condition.match, trace.rule.condition.ranges[1]);
+  });
+
+  it('formats fraction values exactly', () => {
+    const rules = parseRuleSet('one: n % 10 within 1..2; two: i % 1000 = 0');
+    const explain = n => explainPluralCategory(rules, n).rules[0].condition.value;
+    assert.strictEqual(explain('11.50'), '1.5');
+    assert.strictEqual(explain('1.05'), '1.05');
+    assert.strictEqual(explain('1.0'), '1');
+    assert.strictEqual(explain('12345678901234567891.001'), '1.001');
+    assert.strictEqual(
+      explainPluralCategory(rules, '12345678901234567000').rules[1].condition.value,
+      '0'
+    );
+  });
+
+  it('reports NaN for a modulo by zero', () => {
+    const rules = parseRuleSet('one: n % 0 = 1');
+    for (const n of ['1', '1.5', 1.5]) {
+      const { rules: [trace] } = explainPluralCategory(rules, n);
+      assert.deepStrictEqual(summarize(trace.condition), ['NaN', null, false], String(n));
+    }
+  });
+
+  it('agrees with getPluralCategory()', () => {
+    for (const n of [0, 1, 2, 10, 11, 21, 112, 0.1, '1.0', '2.5', 1e6]) {
+      assert.strictEqual(
+        explainPluralCategory(lt, n).category,
+        getPluralCategory(lt, n),
+        String(n)
+      );
+    }
+  });
+
+  it('accepts a format', () => {
+    const { operands, category } = explainPluralCategory(lt, 1, {
+      minimumFractionDigits: 1,
+    });
+    assert.strictEqual(operands.v, 1);
+    assert.strictEqual(category, 'one');
+  });
+});
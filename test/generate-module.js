@@ -0,0 +1,124 @@
+const assert = require('assert');
+const ts = require('typescript');
+const { parseRuleSet, getPluralCategory, generateModule } = require('../dist');
+
+describe('generateModule()', () => {
+  const locales = new Map([
+    ['en', parseRuleSet('one: i = 1 and v = 0')],
+    ['fr', parseRuleSet(`
+      one: i = 0,1;
+      many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5
+    `)],
+    ['ru', parseRuleSet(`
+      one: v = 0 and i % 10 = 1 and i % 100 != 11;
+      few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+      many: v = 0 and i % 10 = 0 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 11..14
+    `)],
+    ['lv', parseRuleSet(`
+      zero: n % 10 = 0 or n % 100 = 11..19 or v = 2 and f % 100 = 11..19;
+      one: n % 10 = 1 and n % 100 != 11 or v = 2 and f % 10 = 1 and f % 100 != 11 or v != 2 and f % 10 = 1
+    `)],
+    ['is', parseRuleSet('one: t = 0 and i % 10 = 1 and i % 100 != 11 or t % 10 = 1 and t % 100 != 11')],
+    ['pt-PT', parseRuleSet('one: n within 0..2 and n != 2 and w = 0')],
+    ['ja', parseRuleSet('')],
+  ]);
+  const values = [
+    0, 1, 2, 3, 5, 11, 12, 19, 21, 22, 100, 101, 111, 1000000, 1.5, 0.1, 0.01,
+    '1.0', '1.00', '1.10', '0.11', '2.0', '21.0', '1c3', '1c6', '1.1c6', '2c6',
+    '1.0001c3', '1e7', 1e-7,
+  ];
+
+  const importModule = source =>
+    import(`data:text/javascript,${encodeURIComponent(source)}`);
+
+  const checkModule = async source => {
+    const mod = await importModule(source);
+    const functionNames = { 'pt-PT': 'pt_PT' };
+    for (const [locale, rules] of locales) {
+      const fn = mod[functionNames[locale] || locale];
+      assert.strictEqual(typeof fn, 'function', locale);
+      for (const value of values) {
+        assert.strictEqual(
+          fn(value),
+          getPluralCategory(rules, value),
+          `${locale}: ${value}`
+        );
+      }
+    }
+  };
+
+  it('generates a JavaScript module', async () => {
+    const source = generateModule(locales);
+    assert.ok(
+      source.includes(`/** @typedef {'zero' | 'one' | 'few' | 'many' | 'other'} PluralCategory */`)
+    );
+    await checkModule(source);
+  });
+
+  it('generates a TypeScript module', async () => {
+    const source = generateModule(locales, { language: 'ts' });
+    assert.ok(
+      source.includes(`export type PluralCategory = 'zero' | 'one' | 'few' | 'many' | 'other';`)
+    );
+    assert.ok(source.includes('export function en(num: number | string): PluralCategory {'));
+    assert.ok(source.includes('export function ja(_num: number | string): PluralCategory {'));
+
+    const { outputText, diagnostics } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+      reportDiagnostics: true,
+    });
+    assert.deepStrictEqual(diagnostics, []);
+    await checkModule(outputText);
+  });
+
+  it('computes only the operands each function needs', () => {
+    const source = generateModule(new Map([
+      ['a', parseRuleSet('one: n = 1')],
+      ['b', parseRuleSet('one: i = 1')],
+      ['c', parseRuleSet('one: i = 1 and v = 0')],
+      ['d', parseRuleSet('one: e = 3')],
+    ]));
+    const body = name => source.slice(
+      source.indexOf(`export function ${name}(`),
+      source.indexOf('\n}', source.indexOf(`export function ${name}(`))
+    );
+    assert.ok(!body('a').includes('readDecimal'));
+    assert.ok(!body('a').includes('const i'));
+    assert.ok(body('b').includes('const i = Math.floor(n);'));
+    assert.ok(body('c').includes('const [id, fd] = readDecimal(num);'));
+    assert.ok(!body('c').includes('const n'));
+    assert.ok(body('d').includes('const [, , exp] = readDecimal(num);'));
+
+    const withoutDecimals = generateModule(new Map([['a', parseRuleSet('one: n = 1')]]));
+    assert.ok(!withoutDecimals.includes('readDecimal'));
+  });
+
+  it('reads compact exponents from strings only', async () => {
+    const rules = parseRuleSet('many: e != 0');
+    const mod = await importModule(generateModule(new Map([['x', rules]])));
+    for (const value of [1e21, '1e21', '1c3', 1.5e-7]) {
+      assert.strictEqual(mod.x(value), getPluralCategory(rules, value), String(value));
+    }
+    assert.strictEqual(mod.x(1e21), 'other');
+  });
+
+  it('derives valid function names from locales', async () => {
+    const source = generateModule(new Map([
+      ['zh-Hant-TW', parseRuleSet('')],
+      ['in', parseRuleSet('')],
+      ['419', parseRuleSet('')],
+    ]));
+    const mod = await importModule(source);
+    assert.deepStrictEqual(Object.keys(mod).sort(), ['_419', 'in_', 'zh_Hant_TW']);
+  });
+
+  it('throws if two locales have the same function name', () => {
+    assert.throws(
+      () => generateModule(new Map([
+        ['pt-PT', parseRuleSet('')],
+        ['pt_PT', parseRuleSet('')],
+      ])),
+      /Locales 'pt-PT' and 'pt_PT' have the same function name: pt_PT/
+    );
+  });
+});
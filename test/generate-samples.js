@@ -0,0 +1,112 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  generateSamples,
+  verifySamples,
+  stringifyRuleSet,
+} = require('../dist');
+
+describe('generateSamples()', () => {
+  const withSamples = (rules, options) => {
+    const samples = generateSamples(rules, options);
+    const result = new Map();
+    for (const [category, rule] of rules.rules) {
+      result.set(category, { ...rule, samples: samples.get(category) });
+    }
+    return { ...rules, rules: result, other: samples.get('other') };
+  };
+
+  const generate = (source, expected, options) => {
+    const rules = withSamples(parseRuleSet(source), options);
+    assert.strictEqual(stringifyRuleSet(rules), expected);
+    assert.ok(verifySamples(rules).valid);
+  };
+
+  it('generates samples like CLDR', () => {
+    generate(
+      'one: i = 1 and v = 0',
+      'one: i = 1 and v = 0 @integer 1; ' +
+      'other: @integer 0, 2~16, 100, 1000, 10000, 100000, 1000000, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …'
+    );
+    generate(
+      'one: v = 0 and i % 10 = 1 and i % 100 != 11; few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14',
+      'one: v = 0 and i % 10 = 1 and i % 100 != 11 @integer 1, 21, 31, 41, 51, 61, 71, 81, 91, 101, 121, 131, 141, 151, 161, 171, 1001, 10001, 100001, 1000001, …; ' +
+      'few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14 @integer 2~4, 22~24, 32~34, 42~44, 52~54, 62, 102, 1002, 10002, 100002, 1000002, …; ' +
+      'other: @integer 0, 5~19, 100, 1000, 10000, 100000, 1000000, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …'
+    );
+  });
+
+  it('generates valid compact samples for the CLDR rules for French', () => {
+    generate(
+      `
+        one: i = 0,1 @integer 0, 1 @decimal 0.0~1.5;
+        many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5 @integer 1000000, 1c6, 2c6, 3c6, 4c6, 5c6, 6c6, … @decimal 1.0000001c6, 1.1c6, 2.0000001c6, 2.1c6, 3.0000001c6, 3.1c6, …;
+        other: @integer 2~17, 100, 1000, 10000, 100000, 1c3, 2c3, 3c3, 4c3, 5c3, 6c3, … @decimal 2.0~3.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, 1.0001c3, 1.1c3, 2.0001c3, 2.1c3, 3.0001c3, 3.1c3, …
+      `,
+      'one: i = 0,1 @integer 0, 1 @decimal 0.0~1.5; ' +
+      'many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5 @integer 1000000, … @decimal 1.0000000c6, …; ' +
+      'other: @integer 2~17, 100, 1000, 10000, 100000, 1000001, … @decimal 2.0~3.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …'
+    );
+  });
+
+  it('generates only integer samples for ordinal rules', () => {
+    generate(
+      'one: n % 10 = 1 and n % 100 != 11; two: n % 10 = 2 and n % 100 != 12; few: n % 10 = 3 and n % 100 != 13',
+      'one: n % 10 = 1 and n % 100 != 11 @integer 1, 21, 31, 41, 51, 61, 71, 81, 91, 101, 121, 131, 141, 151, 161, 171, 1001, 10001, 100001, 1000001, …; ' +
+      'two: n % 10 = 2 and n % 100 != 12 @integer 2, 22, 32, 42, 52, 62, 72, 82, 92, 102, 122, 132, 142, 152, 162, 172, 1002, 10002, 100002, 1000002, …; ' +
+      'few: n % 10 = 3 and n % 100 != 13 @integer 3, 23, 33, 43, 53, 63, 73, 83, 93, 103, 123, 133, 143, 153, 163, 173, 1003, 10003, 100003, 1000003, …; ' +
+      'other: @integer 0, 4~18, 100, 1000, 10000, 100000, 1000000, …',
+      { type: 'ordinal' }
+    );
+
+    // A category that only has decimals has no ordinal samples.
+    const samples = generateSamples(parseRuleSet('one: v = 1'), { type: 'ordinal' });
+    assert.strictEqual(samples.get('one'), null);
+  });
+
+  it('rejects invalid rule types', () => {
+    assert.throws(
+      () => generateSamples(parseRuleSet(''), { type: 'decimal' }),
+      RangeError
+    );
+  });
+
+  it('marks only unbounded categories as infinite', () => {
+    generate(
+      'one: n = 0..1 or n = 11..99',
+      'one: n = 0..1 or n = 11..99 @integer 0, 1, 11~24 @decimal 0.0, 1.0, 11.0, 12.0, 13.0, 14.0, 15.0, 16.0, 17.0, 18.0, 19.0, 20.0, 21.0, 22.0, 23.0, 24.0; ' +
+      'other: @integer 2~10, 100~106, 1000, 10000, 100000, 1000000, … @decimal 0.1~0.9, 1.1~1.7, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …'
+    );
+    generate(
+      'many: n != 0 and n % 1000000 = 0',
+      'many: n != 0 and n % 1000000 = 0 @integer 1000000, … @decimal 1000000.0, …; ' +
+      'other: @integer 0~15, 100, 1000, 10000, 100000, 1000001, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.1, …'
+    );
+  });
+
+  it('generates decimals with the right number of fraction digits', () => {
+    generate(
+      'zero: n = 0; one: v = 2 and f % 10 = 1',
+      'zero: n = 0 @integer 0 @decimal 0.0, 0.00, 0.000, 0.0000; ' +
+      'one: v = 2 and f % 10 = 1 @decimal 0.01, 0.11, 0.21, 0.31, 0.41, 0.51, 0.61, 0.71, 0.81, 0.91, 1.01, 1.11, 1.21, 1.31, 1.41, 1.51, 10.01, 100.01, 1000.01, 10000.01, 100000.01, 1000000.01, …; ' +
+      'other: @integer 1~16, 100, 1000, 10000, 100000, 1000000, … @decimal 0.1~1.6, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …'
+    );
+  });
+
+  it('returns null for categories that match nothing', () => {
+    const samples = generateSamples(parseRuleSet('one: n = 1; two: n = 1'));
+    assert.deepStrictEqual(Array.from(samples.keys()), ['one', 'two', 'other']);
+    assert.strictEqual(samples.get('two'), null);
+  });
+
+  it('returns samples for the other category of an empty rule set', () => {
+    const samples = generateSamples(parseRuleSet(''));
+    assert.deepStrictEqual(Array.from(samples.keys()), ['other']);
+    assert.strictEqual(samples.get('other').integer.infinite, true);
+    assert.deepStrictEqual(samples.get('other').integer.ranges[0], {
+      kind: 'SampleRange',
+      start: { kind: 'SampleValue', value: 0, source: '0' },
+      end: { kind: 'SampleValue', value: 15, source: '15' },
+    });
+  });
+});
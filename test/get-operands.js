@@ -0,0 +1,130 @@
+const assert = require('assert');
+const {
+  parseRule,
+  parseRuleSet,
+  getOperands,
+  getPluralCategory,
+  testPluralRule,
+  compileRuleSet,
+  compileRule,
+  getPluralRangeCategory,
+} = require('../dist');
+
+describe('getOperands()', () => {
+  const operands = (n, i, v, w, f, t, c) => ({ n, i, v, w, f, t, c, e: c });
+
+  it('computes the operands of a number', () => {
+    assert.deepStrictEqual(getOperands(1), operands(1, 1, 0, 0, 0, 0, 0));
+    assert.deepStrictEqual(getOperands('-1.50'), operands(1.5, 1, 2, 1, 50, 5, 0));
+    assert.deepStrictEqual(getOperands('1.2c3'), operands(1200, 1200, 0, 0, 0, 0, 3));
+    assert.deepStrictEqual(getOperands(21n), operands(21, 21, 0, 0, 0, 0, 0));
+  });
+
+  it('returns operands objects as they are', () => {
+    const op = operands(1.5, 1, 1, 1, 5, 5, 0);
+    assert.deepStrictEqual(getOperands(op), op);
+    assert.deepStrictEqual(getOperands(op, { minimumFractionDigits: 3 }), op);
+  });
+
+  it('converts small bigints in operands objects to numbers', () => {
+    const op = { n: 1, i: 1n, v: 0, w: 0, f: 0n, t: 0n, c: 0, e: 0 };
+    assert.deepStrictEqual(getOperands(op), operands(1, 1, 0, 0, 0, 0, 0));
+  });
+
+  it('computes the operands of a formatted number', () => {
+    assert.deepStrictEqual(
+      getOperands(1, { minimumFractionDigits: 1 }),
+      operands(1, 1, 1, 0, 0, 0, 0)
+    );
+    assert.deepStrictEqual(
+      getOperands(1.25, { maximumFractionDigits: 1 }),
+      operands(1.3, 1, 1, 1, 3, 3, 0)
+    );
+    assert.deepStrictEqual(
+      getOperands(1.999, { maximumFractionDigits: 0 }),
+      operands(2, 2, 0, 0, 0, 0, 0)
+    );
+    assert.deepStrictEqual(
+      getOperands(1234, { maximumSignificantDigits: 2 }),
+      operands(1200, 1200, 0, 0, 0, 0, 0)
+    );
+    assert.deepStrictEqual(
+      getOperands('-0.5', { minimumSignificantDigits: 3 }),
+      operands(0.5, 0, 3, 1, 500, 5, 0)
+    );
+    assert.deepStrictEqual(
+      getOperands('12345678901234567891.25', { maximumFractionDigits: 1 }),
+      operands(12345678901234567891.3, 12345678901234567891n, 1, 1, 3, 3, 0)
+    );
+  });
+
+  it('computes the operands of a number in compact notation', () => {
+    const compact = { notation: 'compact' };
+    assert.deepStrictEqual(getOperands(999, compact), operands(999, 999, 0, 0, 0, 0, 0));
+    assert.deepStrictEqual(getOperands(1234, compact), operands(1200, 1200, 0, 0, 0, 0, 3));
+    assert.deepStrictEqual(getOperands(1000000, compact), operands(1000000, 1000000, 0, 0, 0, 0, 6));
+    assert.deepStrictEqual(getOperands('2.5c9', compact), operands(2.5e9, 2500000000, 0, 0, 0, 0, 9));
+    assert.deepStrictEqual(getOperands(7e12, compact), operands(7e12, 7000000000000, 0, 0, 0, 0, 12));
+    assert.deepStrictEqual(
+      getOperands(1050, { notation: 'compact', minimumFractionDigits: 2 }),
+      operands(1050, 1050, 0, 0, 0, 0, 3)
+    );
+  });
+
+  it('throws on non-finite formatted numbers', () => {
+    const format = { maximumFractionDigits: 1 };
+    assert.throws(() => getOperands(NaN, format), /not finite/);
+    assert.throws(() => getOperands(Infinity, format), /not finite/);
+  });
+});
+
+describe('Plural selection from operands and formatted numbers', () => {
+  const en = parseRuleSet('one: i = 1 and v = 0');
+  const fr = parseRuleSet(`
+    one: i = 0,1;
+    many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5
+  `);
+
+  it('gets the category of an operands object', () => {
+    const one = { n: 1, i: 1, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 };
+    const oneDotZero = { ...one, v: 1 };
+    assert.strictEqual(getPluralCategory(en, one), 'one');
+    assert.strictEqual(getPluralCategory(en, oneDotZero), 'other');
+    assert.strictEqual(compileRuleSet(en)(one), 'one');
+    assert.strictEqual(compileRuleSet(en)(oneDotZero), 'other');
+    assert.strictEqual(testPluralRule(parseRule('v = 1'), oneDotZero), true);
+    assert.strictEqual(compileRule(parseRule('v = 1'))(oneDotZero), true);
+  });
+
+  it('gets the category of a formatted number', () => {
+    const oneDecimal = { minimumFractionDigits: 1 };
+    assert.strictEqual(getPluralCategory(en, 1), 'one');
+    assert.strictEqual(getPluralCategory(en, 1, oneDecimal), 'other');
+    assert.strictEqual(compileRuleSet(en)(1, oneDecimal), 'other');
+    assert.strictEqual(getPluralCategory(en, 1.06, { maximumFractionDigits: 1 }), 'other');
+    assert.strictEqual(getPluralCategory(en, 1.04, { maximumFractionDigits: 0 }), 'one');
+    assert.strictEqual(testPluralRule(parseRule('v = 1'), 1, oneDecimal), true);
+    assert.strictEqual(compileRule(parseRule('v = 1'))(1, oneDecimal), true);
+  });
+
+  it('gets the category of a number in compact notation', () => {
+    const compact = { notation: 'compact' };
+    assert.strictEqual(getPluralCategory(fr, 1000000), 'many');
+    assert.strictEqual(getPluralCategory(fr, 1200000), 'other');
+    assert.strictEqual(getPluralCategory(fr, 1200000, compact), 'many');
+    assert.strictEqual(compileRuleSet(fr)(1200000, compact), 'many');
+    assert.strictEqual(getPluralCategory(fr, 1200, compact), 'other');
+  });
+
+  it('gets the category of a range of formatted numbers', () => {
+    const ranges = [
+      { start: 'one', end: 'one', result: 'one' },
+      { start: 'one', end: 'other', result: 'other' },
+    ];
+    assert.strictEqual(getPluralRangeCategory(en, ranges, 1, 1), 'one');
+    assert.strictEqual(
+      getPluralRangeCategory(en, ranges, 1, 1, { minimumFractionDigits: 1 }),
+      'other'
+    );
+  });
+});
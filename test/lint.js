@@ -0,0 +1,127 @@
+const assert = require('assert');
+const { parseRuleSet, parseRule, lintRuleSet, lintRule } = require('../dist');
+
+describe('lintRuleSet()', () => {
+  const lints = (source, expected) => {
+    const findings = lintRuleSet(parseRuleSet(source));
+    assert.deepStrictEqual(
+      findings.map(f => [f.category, f.severity, f.code, f.message]),
+      expected
+    );
+  };
+
+  it('accepts valid rules', () => {
+    lints('', []);
+    lints(`
+      one: v = 0 and i % 10 = 1 and i % 100 != 11 or f % 10 = 1 and f % 100 != 11;
+      few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14 or f % 10 = 2..4 and f % 100 != 12..14
+    `, []);
+    lints(`
+      one: i = 0,1;
+      many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5
+    `, []);
+  });
+
+  it('reports impossible "and" conditions', () => {
+    lints('one: n = 0 and n = 1', [
+      ['one', 'error', 'unsatisfiable-and', `Relations in 'and' condition can never match at the same time`],
+    ]);
+    lints('one: n = 1 or i = 2 and v = 1 and n = 3', [
+      ['one', 'error', 'unsatisfiable-and', `Relations in 'and' condition can never match at the same time`],
+    ]);
+  });
+
+  it('reports impossible relations', () => {
+    lints('one: n % 10 = 10..19', [
+      ['one', 'error', 'unsatisfiable-relation', `Relation on 'n % 10' can never match`],
+    ]);
+  });
+
+  it('reports always-true relations and conditions', () => {
+    lints('one: n % 10 != 10', [
+      ['one', 'warning', 'always-true-relation', `Relation on 'n % 10' always matches`],
+    ]);
+    lints('one: i % 2 = 0 or i % 2 = 1', [
+      ['one', 'warning', 'always-true-condition', `Condition always matches`],
+    ]);
+  });
+
+  it('reports reversed ranges', () => {
+    lints('one: n in 10..1', [
+      ['one', 'error', 'reversed-range', 'Range 10..1 is empty: its start is greater than its end'],
+    ]);
+  });
+
+  it('reports fraction digits required without visible fraction digits', () => {
+    lints('one: v = 0 and f = 1', [
+      ['one', 'error', 'fraction-without-digits', `'f' is always 0 when there are no visible fraction digits`],
+    ]);
+    lints('one: w = 0 and i = 1 and t % 10 = 2..4', [
+      ['one', 'error', 'fraction-without-digits', `'t' is always 0 when there are no visible fraction digits`],
+    ]);
+    // f = 0 is fine
+    lints('one: v = 0 and f = 0 and i = 1', []);
+  });
+
+  it('reports suspicious modulo divisors', () => {
+    lints('one: n % 0 = 1; two: n mod 1 = 0', [
+      ['one', 'error', 'mod-by-zero', `Division by zero in 'n % 0'`],
+      ['two', 'warning', 'mod-by-one', `'n % 1' is always 0`],
+    ]);
+  });
+
+  it('reports redundant ranges', () => {
+    lints('one: n = 1..3, 2', [
+      ['one', 'warning', 'redundant-range', 'Value 2 is already covered by the range list'],
+    ]);
+    lints('one: n = 3, 3', [
+      ['one', 'warning', 'redundant-range', 'Value 3 is already covered by the range list'],
+    ]);
+    lints('one: n = 1..2, 5..6, 3..4, 2..5', [
+      ['one', 'warning', 'redundant-range', 'Range 2..5 is already covered by the range list'],
+    ]);
+    // Integer ranges are adjacent, but 'within' ranges are not.
+    lints('one: n within 1..2, 3..4, 2..3', []);
+    lints('one: n within 1..2, 2..4, 2..3', [
+      ['one', 'warning', 'redundant-range', 'Range 2..3 is already covered by the range list'],
+    ]);
+  });
+
+  it('analyzes rules up to the scan limit', () => {
+    // The least common multiple of the divisors, 3998000, is just within the
+    // limit.
+    lints('one: i % 2000 = 1 and i % 3998 = 2', [
+      ['one', 'error', 'unsatisfiable-and', `Relations in 'and' condition can never match at the same time`],
+    ]);
+  });
+
+  it('reports nothing it cannot prove about complex rules', () => {
+    // Past the scan limit, nothing is known for certain.
+    lints('one: i % 2000 = 1 and i % 4002 = 2', []);
+    lints('one: i % 1000000 = 0 and i % 999983 = 1', []);
+    lints('one: n = 10000000', []);
+  });
+
+  it('points at the offending node', () => {
+    const rules = parseRuleSet('one: n = 1; two: n = 2 or n % 0 = 1 and v = 0');
+    const [finding] = lintRuleSet(rules);
+    const and = rules.rules.get('two').condition.alternatives[1];
+    assert.strictEqual(finding.node, and.relations[0].expr);
+  });
+});
+
+describe('lintRule()', () => {
+  it('lints a single rule', () => {
+    const rule = parseRule('n in 5..3');
+    const findings = lintRule(rule);
+    assert.deepStrictEqual(findings, [
+      {
+        code: 'reversed-range',
+        severity: 'error',
+        message: 'Range 5..3 is empty: its start is greater than its end',
+        node: rule.condition.ranges[0],
+        category: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+const assert = require('assert');
+const { ParseError, loadCldrJson, parseRuleSet } = require('../dist');
+
+describe('loadCldrJson()', () => {
+  const cardinals = {
+    supplemental: {
+      version: { _unicodeVersion: '15.0.0', _cldrVersion: '43' },
+      'plurals-type-cardinal': {
+        en: {
+          'pluralRule-count-one': 'i = 1 and v = 0 @integer 1',
+          'pluralRule-count-other': ' @integer 0, 2~16, 100, 1000, 10000, 100000, 1000000, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …',
+        },
+        ja: {
+          'pluralRule-count-other': ' @integer 0~15, 100, 1000, 10000, 100000, 1000000, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …',
+        },
+      },
+    },
+  };
+
+  const ordinals = {
+    supplemental: {
+      'plurals-type-ordinal': {
+        en: {
+          'pluralRule-count-few': 'n % 10 = 3 and n % 100 != 13 @integer 3, 23',
+          'pluralRule-count-one': 'n % 10 = 1 and n % 100 != 11 @integer 1, 21',
+          'pluralRule-count-two': 'n % 10 = 2 and n % 100 != 12 @integer 2, 22',
+          'pluralRule-count-other': '',
+        },
+      },
+    },
+  };
+
+  it('loads cardinal rules', () => {
+    const rules = loadCldrJson(cardinals);
+    assert.deepStrictEqual(Array.from(rules.keys()), ['en', 'ja']);
+    assert.deepStrictEqual(
+      rules.get('en'),
+      parseRuleSet(
+        'one: i = 1 and v = 0 @integer 1;' +
+        'other: ' + cardinals.supplemental['plurals-type-cardinal'].en['pluralRule-count-other']
+      )
+    );
+    const ja = rules.get('ja');
+    assert.strictEqual(ja.rules.size, 0);
+    assert.strictEqual(ja.other.integer.ranges[0].start.source, '0');
+  });
+
+  it('loads ordinal rules in data order', () => {
+    const rules = loadCldrJson(ordinals);
+    const en = rules.get('en');
+    assert.deepStrictEqual(Array.from(en.rules.keys()), ['few', 'one', 'two']);
+    assert.strictEqual(en.other, null);
+  });
+
+  it('accepts JSON strings and data without the supplemental wrapper', () => {
+    const json = JSON.stringify(cardinals.supplemental);
+    assert.deepStrictEqual(loadCldrJson(json), loadCldrJson(cardinals));
+  });
+
+  it('loads the specified type', () => {
+    const both = {
+      ...cardinals.supplemental,
+      ...ordinals.supplemental,
+    };
+    assert.deepStrictEqual(
+      loadCldrJson(both, 'cardinal'),
+      loadCldrJson(cardinals)
+    );
+    assert.deepStrictEqual(
+      loadCldrJson(both, 'ordinal'),
+      loadCldrJson(ordinals)
+    );
+    assert.throws(
+      () => loadCldrJson(both),
+      new TypeError(
+        `Data contains both cardinal and ordinal rules; specify which type to load`
+      )
+    );
+    assert.throws(
+      () => loadCldrJson(cardinals, 'ordinal'),
+      new TypeError(`Expected 'plurals-type-ordinal' to be an object`)
+    );
+  });
+
+  it('rejects data in the wrong format', () => {
+    assert.throws(
+      () => loadCldrJson([]),
+      new TypeError('Expected plural rule data to be an object')
+    );
+    assert.throws(
+      () => loadCldrJson({ supplemental: {} }),
+      new TypeError(
+        `Expected a 'plurals-type-cardinal' or 'plurals-type-ordinal' property`
+      )
+    );
+    assert.throws(
+      () => loadCldrJson({ 'plurals-type-cardinal': { en: 'one: n = 1' } }),
+      new TypeError(`Expected the rules for locale 'en' to be an object`)
+    );
+    assert.throws(
+      () => loadCldrJson({
+        'plurals-type-cardinal': { en: { 'pluralRule-count-one': 1 } },
+      }),
+      new TypeError(`Expected 'pluralRule-count-one' in locale 'en' to be a string`)
+    );
+  });
+
+  it('reports syntax errors with the locale and category', () => {
+    assert.throws(
+      () => loadCldrJson({
+        'plurals-type-cardinal': {
+          en: { 'pluralRule-count-one': 'i = 1 and v = x' },
+        },
+      }),
+      err => {
+        assert.ok(err instanceof ParseError);
+        assert.strictEqual(
+          err.message,
+          `Invalid rule for category 'one' in locale 'en': ` +
+          `Expected value or range; got plural category 'x'`
+        );
+        assert.strictEqual(err.offset, 14);
+        return true;
+      }
+    );
+    assert.throws(
+      () => loadCldrJson({
+        'plurals-type-cardinal': {
+          en: { 'pluralRule-count-other': 'n = 1' },
+        },
+      }),
+      new ParseError(
+        `Invalid rule for category 'other' in locale 'en': ` +
+        `Expected end-of-file; got 'n'`
+      )
+    );
+  });
+});
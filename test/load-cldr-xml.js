@@ -0,0 +1,159 @@
+const assert = require('assert');
+const { ParseError, loadCldrXml, parseRuleSet } = require('../dist');
+
+describe('loadCldrXml()', () => {
+  const cardinals = `<?xml version="1.0" encoding="UTF-8" ?>
+<!DOCTYPE supplementalData SYSTEM "../../common/dtd/ldmlSupplemental.dtd">
+<!--
+Copyright © 1991-2023 Unicode, Inc.
+-->
+<supplementalData>
+    <version number="$Revision$"/>
+    <plurals type="cardinal">
+        <!-- 1: other -->
+        <pluralRules locales="ja zh">
+            <pluralRule count="other"> @integer 0~15, 100, 1000, … @decimal 0.0~1.5, 10.0, …</pluralRule>
+        </pluralRules>
+        <!-- 2: one,other -->
+        <pluralRules locales="en
+                              de">
+            <pluralRule count="one">i = 1 and v = 0 @integer 1</pluralRule>
+            <pluralRule count="other"> @integer 0, 2~16, 100, 1000, … @decimal 0.0~1.5, 10.0, …</pluralRule>
+        </pluralRules>
+    </plurals>
+</supplementalData>
+`;
+
+  const ordinals = `<supplementalData>
+    <plurals type='ordinal'>
+        <pluralRules locales='en'>
+            <pluralRule count='one'>n % 10 = 1 and n % 100 != 11 @integer 1, 21</pluralRule>
+            <pluralRule count='two'><![CDATA[n % 10 = 2 and n % 100 != 12]]> @integer 2, 22</pluralRule>
+            <pluralRule count='few'>n &#x25; 10 = 3 and n &#37; 100 &#x21;= 13 @integer 3, 23</pluralRule>
+            <pluralRule count='other'/>
+        </pluralRules>
+    </plurals>
+</supplementalData>`;
+
+  it('loads cardinal rules for every locale', () => {
+    const rules = loadCldrXml(cardinals);
+    assert.deepStrictEqual(Array.from(rules.keys()), ['ja', 'zh', 'en', 'de']);
+    assert.deepStrictEqual(
+      rules.get('en'),
+      parseRuleSet(
+        'one: i = 1 and v = 0 @integer 1;' +
+        'other: @integer 0, 2~16, 100, 1000, … @decimal 0.0~1.5, 10.0, …'
+      )
+    );
+    assert.deepStrictEqual(rules.get('de'), rules.get('en'));
+    assert.deepStrictEqual(
+      rules.get('zh'),
+      parseRuleSet('other: @integer 0~15, 100, 1000, … @decimal 0.0~1.5, 10.0, …')
+    );
+  });
+
+  it('loads ordinal rules, with CDATA and character references', () => {
+    const en = loadCldrXml(ordinals).get('en');
+    assert.deepStrictEqual(
+      en,
+      parseRuleSet(
+        'one: n % 10 = 1 and n % 100 != 11 @integer 1, 21;' +
+        'two: n % 10 = 2 and n % 100 != 12 @integer 2, 22;' +
+        'few: n % 10 = 3 and n % 100 != 13 @integer 3, 23'
+      )
+    );
+  });
+
+  it('loads the specified type', () => {
+    const both = `<supplementalData>
+      <plurals type="cardinal">
+        <pluralRules locales="en"><pluralRule count="one">n = 1</pluralRule></pluralRules>
+      </plurals>
+      <plurals type="ordinal">
+        <pluralRules locales="en"><pluralRule count="one">n = 2</pluralRule></pluralRules>
+      </plurals>
+    </supplementalData>`;
+    assert.deepStrictEqual(
+      loadCldrXml(both, 'cardinal').get('en'),
+      parseRuleSet('one: n = 1')
+    );
+    assert.deepStrictEqual(
+      loadCldrXml(both, 'ordinal').get('en'),
+      parseRuleSet('one: n = 2')
+    );
+    assert.throws(
+      () => loadCldrXml(both),
+      new TypeError(
+        `Data contains both cardinal and ordinal rules; specify which type to load`
+      )
+    );
+    assert.throws(
+      () => loadCldrXml(cardinals, 'ordinal'),
+      new TypeError(`Expected a 'plurals' element of type 'ordinal'`)
+    );
+  });
+
+  it('treats plurals without a type as cardinal', () => {
+    const rules = loadCldrXml(
+      '<plurals><pluralRules locales="en"/></plurals>',
+      'cardinal'
+    );
+    assert.deepStrictEqual(rules.get('en'), parseRuleSet(''));
+  });
+
+  it('rejects data in the wrong format', () => {
+    assert.throws(
+      () => loadCldrXml('<supplementalData/>'),
+      new TypeError(`Expected a 'plurals' element`)
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals type="other"/>'),
+      new TypeError(`Unknown plural rule type: other`)
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules/></plurals>'),
+      new TypeError(`Expected a 'locales' attribute on <pluralRules>`)
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules locales="en"><pluralRule>n = 1</pluralRule></pluralRules></plurals>'),
+      new TypeError(`Expected a 'count' attribute on <pluralRule>`)
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules locales="en fr"/><pluralRules locales="fr"/></plurals>'),
+      new TypeError(`Locale 'fr' occurs more than once`)
+    );
+  });
+
+  it('rejects malformed XML', () => {
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules locales="en"></plurals>'),
+      new SyntaxError('Unexpected end tag: </plurals>')
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals>'),
+      new SyntaxError('Unclosed element: <plurals>')
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals> < </plurals>'),
+      new SyntaxError('Invalid XML at offset 10')
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals>&nbsp;</plurals>'),
+      new SyntaxError('Invalid character reference at offset 9: &nbsp;')
+    );
+  });
+
+  it('reports syntax errors with the locale and category', () => {
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules locales="en fr"><pluralRule count="one">n = </pluralRule></pluralRules></plurals>'),
+      new ParseError(
+        `Invalid rule for category 'one' in locale 'en': ` +
+        `Expected value or range; got end-of-file`
+      )
+    );
+    assert.throws(
+      () => loadCldrXml('<plurals><pluralRules locales="en"><pluralRule count="one">n = 1</pluralRule><pluralRule count="one">n = 2</pluralRule></pluralRules></plurals>'),
+      new ParseError(`Category 'one' occurs more than once in locale 'en'`)
+    );
+  });
+});
@@ -0,0 +1,178 @@
+const assert = require('assert');
+const { ParseError, parseRuleSet, parseRule } = require('../dist');
+
+describe('source locations', () => {
+  // Maps every span in the tree to the source text it covers.
+  const spanTexts = (source, node, texts = []) => {
+    if (node instanceof Map) {
+      for (const value of node.values()) {
+        spanTexts(source, value, texts);
+      }
+    } else if (Array.isArray(node)) {
+      for (const child of node) {
+        spanTexts(source, child, texts);
+      }
+    } else if (node && typeof node === 'object' && node.kind) {
+      const { start, end } = node.span;
+      texts.push([node.kind, source.slice(start.offset, end.offset)]);
+      for (const key of Object.keys(node)) {
+        if (key !== 'span') {
+          spanTexts(source, node[key], texts);
+        }
+      }
+    }
+    return texts;
+  };
+
+  const rejects = (parse, source, expected) => {
+    assert.throws(() => parse(source), err => {
+      assert.ok(err instanceof ParseError);
+      assert.deepStrictEqual(
+        {
+          offset: err.offset,
+          line: err.line,
+          column: err.column,
+          token: err.token,
+          expected: err.expected,
+        },
+        expected
+      );
+      return true;
+    });
+  };
+
+  it('does not add spans by default', () => {
+    const rule = parseRule('n = 1');
+    assert.strictEqual('span' in rule, false);
+    assert.strictEqual('span' in rule.condition, false);
+  });
+
+  it('adds spans to rule nodes', () => {
+    const source = 'n % 10 = 1..3, 5 and v = 0 or i is not 4';
+    const rule = parseRule(source, { locations: true });
+    assert.deepStrictEqual(spanTexts(source, rule), [
+      ['PluralRule', source],
+      ['OrCondition', source],
+      ['AndCondition', 'n % 10 = 1..3, 5 and v = 0'],
+      ['Relation', 'n % 10 = 1..3, 5'],
+      ['Expr', 'n % 10'],
+      ['Value', '10'],
+      ['Range', '1..3'],
+      ['Value', '1'],
+      ['Value', '3'],
+      ['Value', '5'],
+      ['Relation', 'v = 0'],
+      ['Expr', 'v'],
+      ['Value', '0'],
+      ['Relation', 'i is not 4'],
+      ['Expr', 'i'],
+      ['Value', '4'],
+    ]);
+  });
+
+  it('adds spans to sample nodes', () => {
+    const source = 'n = 1 @integer 1, 2~3, … @decimal 1.0';
+    const rule = parseRule(source, { locations: true });
+    assert.deepStrictEqual(spanTexts(source, rule.samples), [
+      ['Samples', '@integer 1, 2~3, … @decimal 1.0'],
+      ['SampleList', '1, 2~3, …'],
+      ['SampleValue', '1'],
+      ['SampleRange', '2~3'],
+      ['SampleValue', '2'],
+      ['SampleValue', '3'],
+      ['SampleList', '1.0'],
+      ['SampleValue', '1.0'],
+    ]);
+  });
+
+  it('adds spans to rule sets', () => {
+    const source = '\n  one: n = 1;\n  other: @integer 2\n';
+    const rules = parseRuleSet(source, { locations: true });
+    assert.deepStrictEqual(rules.span, {
+      start: { offset: 3, line: 2, column: 3 },
+      end: { offset: 34, line: 3, column: 20 },
+    });
+    assert.deepStrictEqual(rules.rules.get('one').span, {
+      start: { offset: 8, line: 2, column: 8 },
+      end: { offset: 13, line: 2, column: 13 },
+    });
+    assert.deepStrictEqual(rules.other.span.start, { offset: 24, line: 3, column: 10 });
+  });
+
+  it('counts lines separated by \\n, \\r\\n and \\r', () => {
+    const source = 'one: n = 1;\r\ntwo: n = 2;\rthree: n = 3;\nfour: n = 4';
+    const rules = parseRuleSet(source, { locations: true });
+    const starts = Array.from(rules.rules.values(), r => r.span.start);
+    assert.deepStrictEqual(starts, [
+      { offset: 5, line: 1, column: 6 },
+      { offset: 18, line: 2, column: 6 },
+      { offset: 32, line: 3, column: 8 },
+      { offset: 45, line: 4, column: 7 },
+    ]);
+  });
+
+  it('reports the location of unexpected tokens', () => {
+    rejects(parseRuleSet, 'one: n = 1;\n  two: n = x', {
+      offset: 23,
+      line: 2,
+      column: 12,
+      token: 'x',
+      expected: ['Value'],
+    });
+    rejects(parseRuleSet, 'one n = 1', {
+      offset: 4,
+      line: 1,
+      column: 5,
+      token: 'n',
+      expected: [':'],
+    });
+    rejects(parseRule, 'n mod 10', {
+      offset: 8,
+      line: 1,
+      column: 9,
+      token: null,
+      expected: ['=', '!=', 'is', 'in', 'within', 'not'],
+    });
+    rejects(parseRule, 'x = 1', {
+      offset: 0,
+      line: 1,
+      column: 1,
+      token: 'x',
+      expected: ['n', 'i', 'f', 't', 'v', 'w', 'c', 'e'],
+    });
+    rejects(parseRuleSet, 'one: n = 1 two', {
+      offset: 11,
+      line: 1,
+      column: 12,
+      token: 'two',
+      expected: [';', 'EOF'],
+    });
+  });
+
+  it('reports the location of invalid characters', () => {
+    rejects(parseRule, 'n = 1\n  and n # 2', {
+      offset: 14,
+      line: 2,
+      column: 9,
+      token: '#',
+      expected: [],
+    });
+    rejects(parseRule, 'n = 1 @foo', {
+      offset: 6,
+      line: 1,
+      column: 7,
+      token: '@foo',
+      expected: ['@integer', '@decimal'],
+    });
+  });
+
+  it('reports the location of duplicate categories', () => {
+    rejects(parseRuleSet, 'one: n = 1;\none: n = 2', {
+      offset: 12,
+      line: 2,
+      column: 1,
+      token: 'one',
+      expected: [],
+    });
+  });
+});
@@ -0,0 +1,133 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  parseRule,
+  normalizeRuleSet,
+  normalizeRule,
+  stringifyRuleSet,
+  stringifyRule,
+  diffRuleSets,
+} = require('../dist');
+
+describe('normalizeRuleSet()', () => {
+  const normalize = (source, expected) => {
+    const rules = parseRuleSet(source);
+    const normalized = normalizeRuleSet(rules);
+    assert.strictEqual(stringifyRuleSet(normalized), expected);
+    assert.deepStrictEqual(diffRuleSets(rules, normalized), []);
+    // Normalizing is idempotent.
+    assert.deepStrictEqual(normalizeRuleSet(normalized), normalized);
+  };
+
+  it('merges and sorts ranges', () => {
+    normalize('one: n = 4, 1..2, 3', 'one: n = 1..4');
+    normalize('one: i % 10 = 5..9, 0, 7', 'one: i % 10 = 0,5..9');
+    normalize('one: n != 3..5, 1..4, 10', 'one: n != 1..5,10');
+    normalize('one: n = 2..2', 'one: n = 2');
+    normalize('one: n = 5..1, 3', 'one: n = 3');
+    normalize('one: n = 5..1', 'one: n = 5..1');
+    normalize('one: i = 0..1, 2..3', 'one: i = 0..3');
+    normalize('one: i = 1..2', 'one: i = 1,2');
+  });
+
+  it('does not merge adjacent ranges in within relations', () => {
+    normalize('one: n within 3..4, 1..2', 'one: n within 1..2,3..4');
+    normalize('one: n within 2..4, 1..2', 'one: n within 1..4');
+    normalize('one: n within 1..3, 2', 'one: n within 1..3');
+    normalize('one: n within 1..2', 'one: n within 1..2');
+  });
+
+  it('converts within relations to in relations where equivalent', () => {
+    normalize('one: i within 1..3', 'one: i = 1..3');
+    normalize('one: v not within 1..2, 3..4', 'one: v != 1..4');
+    normalize('one: n within 1, 3', 'one: n = 1,3');
+    normalize('one: n not within 2..2', 'one: n != 2');
+    normalize('one: n within 0..2 and n != 2', 'one: n within 0..2 and n != 2');
+  });
+
+  it('reads is and is not as = and !=', () => {
+    normalize('one: n is 1 and v is not 2', 'one: n = 1 and v != 2');
+    normalize('one: n mod 10 in 2..4 and n mod 100 not in 12..14', 'one: n % 10 = 2..4 and n % 100 != 12..14');
+  });
+
+  it('removes duplicate relations and alternatives', () => {
+    normalize('one: n = 1 and v = 0 and n = 1', 'one: n = 1 and v = 0');
+    normalize('one: n = 1 or n = 2 or n = 1', 'one: n = 1 or n = 2');
+    normalize('one: i = 1 and v = 0 or i = 1 and v = 0', 'one: i = 1 and v = 0');
+    normalize('one: n = 1,2 or n = 2,1', 'one: n = 1,2');
+  });
+
+  it('unwraps single relations and alternatives', () => {
+    const rule = normalizeRule(parseRule('n = 1 and n = 1 or n = 1'));
+    assert.deepStrictEqual(rule.condition, {
+      kind: 'Relation',
+      expr: { kind: 'Expr', operand: 'n', modDivisor: null },
+      ranges: [{ kind: 'Value', value: 1, source: '1' }],
+      negated: false,
+      within: false,
+    });
+  });
+
+  it('flattens nested conditions', () => {
+    const relation = value => ({
+      kind: 'Relation',
+      expr: { kind: 'Expr', operand: 'i', modDivisor: null },
+      ranges: [{ kind: 'Value', value, source: String(value) }],
+      negated: false,
+      within: false,
+    });
+    const rule = normalizeRule({
+      kind: 'PluralRule',
+      condition: {
+        kind: 'OrCondition',
+        alternatives: [
+          { kind: 'OrCondition', alternatives: [relation(1), relation(2)] },
+          { kind: 'AndCondition', relations: [relation(3)] },
+        ],
+      },
+      samples: null,
+    });
+    assert.strictEqual(stringifyRule(rule), 'i = 1 or i = 2 or i = 3');
+  });
+
+  it('orders categories canonically', () => {
+    normalize(
+      'many: n = 6; custom: n = 7; few: n = 3; zero: n = 0; two: n = 2; one: n = 1',
+      'zero: n = 0; one: n = 1; two: n = 2; few: n = 3; many: n = 6; custom: n = 7'
+    );
+  });
+
+  it('keeps the order of overlapping categories', () => {
+    normalize(
+      'many: n = 6; few: n = 1..6; one: n = 1',
+      'many: n = 6; few: n = 1..6; one: n = 1'
+    );
+    normalize(
+      'many: n % 10 = 0; two: n = 2; few: n = 10..20',
+      'two: n = 2; many: n % 10 = 0; few: n = 10..20'
+    );
+  });
+
+  it('keeps the order of categories that are too complex to analyze', () => {
+    const rules = parseRuleSet('few: i % 1000000 = 0; one: i % 999983 = 1..2, 1');
+    assert.strictEqual(
+      stringifyRuleSet(normalizeRuleSet(rules)),
+      'few: i % 1000000 = 0; one: i % 999983 = 1,2'
+    );
+  });
+
+  it('keeps samples', () => {
+    normalize(
+      'one: n = 1 @integer 1; other: @integer 0, 2~16, … @decimal 0.0~1.5, …',
+      'one: n = 1 @integer 1; other: @integer 0, 2~16, … @decimal 0.0~1.5, …'
+    );
+  });
+
+  it('does not preserve source locations', () => {
+    const rules = parseRuleSet('one: n = 1 @integer 1; other: @integer 0', { locations: true });
+    assert.deepStrictEqual(
+      normalizeRuleSet(rules),
+      normalizeRuleSet(parseRuleSet('one: n = 1 @integer 1; other: @integer 0'))
+    );
+  });
+});
@@ -0,0 +1,188 @@
+const assert = require('assert');
+const {
+  parseRule,
+  parseRuleSet,
+  testPluralRule,
+  compileRule,
+  getPluralCategory,
+  compileRuleSet,
+} = require('../dist');
+
+describe('operands', () => {
+  const operandNames = ['n', 'i', 'v', 'w', 'f', 't', 'c', 'e'];
+
+  // Checks the operands through both the interpreter and the compiler, which
+  // read operands differently. Rules only contain integers, so a fractional n
+  // is checked by the integers around it.
+  const hasOperands = (input, expected) => {
+    for (const name of operandNames) {
+      const value = expected[name];
+      const rules = typeof value === 'bigint' || Number.isInteger(value)
+        ? [`${name} = ${BigInt(value)}`]
+        : [
+          `${name} within ${Math.floor(value)}..${Math.ceil(value)}`,
+          `${name} not in ${Math.floor(value)}..${Math.ceil(value)}`,
+        ];
+      for (const source of rules) {
+        const rule = parseRule(source);
+        assert.ok(testPluralRule(rule, input), `${input}: ${source}`);
+        assert.ok(compileRule(rule)(input), `${input}: ${source} (compiled)`);
+      }
+    }
+  };
+
+  // Examples from TR35.
+  it('computes operands of plain numbers', () => {
+    hasOperands('1', { n: 1, i: 1, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('1.0', { n: 1, i: 1, v: 1, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('1.00', { n: 1, i: 1, v: 2, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('1.3', { n: 1.3, i: 1, v: 1, w: 1, f: 3, t: 3, c: 0, e: 0 });
+    hasOperands('1.03', { n: 1.03, i: 1, v: 2, w: 2, f: 3, t: 3, c: 0, e: 0 });
+    hasOperands('1.230', { n: 1.23, i: 1, v: 3, w: 2, f: 230, t: 23, c: 0, e: 0 });
+    hasOperands('1200000', { n: 1200000, i: 1200000, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('1200.50', { n: 1200.5, i: 1200, v: 2, w: 1, f: 50, t: 5, c: 0, e: 0 });
+  });
+
+  it('applies compact exponents', () => {
+    hasOperands('1.2c6', { n: 1200000, i: 1200000, v: 0, w: 0, f: 0, t: 0, c: 6, e: 6 });
+    hasOperands('123c6', { n: 123000000, i: 123000000, v: 0, w: 0, f: 0, t: 0, c: 6, e: 6 });
+    hasOperands('123c5', { n: 12300000, i: 12300000, v: 0, w: 0, f: 0, t: 0, c: 5, e: 5 });
+    hasOperands('1.20050c3', { n: 1200.5, i: 1200, v: 2, w: 1, f: 50, t: 5, c: 3, e: 3 });
+    hasOperands('1.2c3', { n: 1200, i: 1200, v: 0, w: 0, f: 0, t: 0, c: 3, e: 3 });
+  });
+
+  it('accepts e as the exponent separator', () => {
+    hasOperands('1.2e3', { n: 1200, i: 1200, v: 0, w: 0, f: 0, t: 0, c: 3, e: 3 });
+    hasOperands('1.20050e3', { n: 1200.5, i: 1200, v: 2, w: 1, f: 50, t: 5, c: 3, e: 3 });
+  });
+
+  it('does not treat the exponent of a large number as compact', () => {
+    hasOperands(1e21, { n: 1e21, i: 1000000000000000000000n, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands(1.5e22, { n: 1.5e22, i: 15000000000000000000000n, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+
+    const fr = parseRuleSet('many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5');
+    for (const input of [1e21, '1000000000000000000000']) {
+      assert.strictEqual(getPluralCategory(fr, input), 'many', String(input));
+      assert.strictEqual(compileRuleSet(fr)(input), 'many', `${input} (compiled)`);
+    }
+    assert.strictEqual(getPluralCategory(fr, '1e21'), 'many');
+    assert.strictEqual(getPluralCategory(fr, '1.5e21'), 'many');
+  });
+
+  it('applies negative exponents without a compact exponent', () => {
+    hasOperands(1.5e-7, { n: 1.5e-7, i: 0, v: 8, w: 8, f: 15, t: 15, c: 0, e: 0 });
+    hasOperands('-1.5e-2', { n: 0.015, i: 0, v: 3, w: 3, f: 15, t: 15, c: 0, e: 0 });
+  });
+
+  it('computes i for large numbers', () => {
+    hasOperands(5e9, { n: 5e9, i: 5e9, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('5c9', { n: 5e9, i: 5e9, v: 0, w: 0, f: 0, t: 0, c: 9, e: 9 });
+  });
+
+  it('computes operands of numbers of any length exactly', () => {
+    hasOperands('12345678901234567891', { n: 12345678901234567891n, i: 12345678901234567891n, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('0.10000000000000000001', { n: 0.1, i: 0, v: 20, w: 20, f: 10000000000000000001n, t: 10000000000000000001n, c: 0, e: 0 });
+    hasOperands('1.00000000000000000000', { n: 1, i: 1, v: 20, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands('1.2345678901234567891c19', { n: 12345678901234567891n, i: 12345678901234567891n, v: 0, w: 0, f: 0, t: 0, c: 19, e: 19 });
+    hasOperands(2 ** 60, { n: 2 ** 60, i: 1152921504606846976n, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+  });
+
+  it('compares against rule values past 2^53 exactly', () => {
+    const categorize = (source, input) => {
+      const rules = parseRuleSet(source);
+      const category = getPluralCategory(rules, input);
+      assert.strictEqual(compileRuleSet(rules)(input), category, `${input} (compiled)`);
+      return category;
+    };
+
+    // Both values round to the same double.
+    const one = 'one: n = 12345678901234567891';
+    assert.strictEqual(categorize(one, '12345678901234567891'), 'one');
+    assert.strictEqual(categorize(one, '12345678901234567890'), 'other');
+    assert.strictEqual(categorize(one, 12345678901234567891n), 'one');
+
+    const range = 'one: i = 12345678901234567891..12345678901234567893';
+    assert.strictEqual(categorize(range, '12345678901234567890'), 'other');
+    assert.strictEqual(categorize(range, '12345678901234567892.5'), 'one');
+    assert.strictEqual(categorize(range, '12345678901234567894'), 'other');
+
+    // 2^64 + 1 would round to 2^64.
+    const mod = 'one: i % 18446744073709551617 = 18446744073709551616';
+    assert.strictEqual(categorize(mod, '18446744073709551616'), 'one');
+    assert.strictEqual(categorize(mod, '36893488147419103233'), 'one');
+    assert.strictEqual(categorize(mod, '36893488147419103232'), 'other');
+    assert.strictEqual(categorize('one: i % 18446744073709551617 = 5', 5), 'one');
+  });
+
+  it('accepts bigints', () => {
+    hasOperands(12345678901234567891n, { n: 12345678901234567891n, i: 12345678901234567891n, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands(-21n, { n: 21, i: 21, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+    hasOperands(0n, { n: 0, i: 0, v: 0, w: 0, f: 0, t: 0, c: 0, e: 0 });
+  });
+
+  it('evaluates n exactly', () => {
+    const cases = [
+      ['n = 1', '1.00000000000000000001', false],
+      ['n = 1', '1.00000000000000000000', true],
+      ['n in 0..1', '0.10000000000000000001', false],
+      ['n within 0..1', '0.10000000000000000001', true],
+      ['n within 0..1', '1.00000000000000000001', false],
+      ['n % 10 = 1', '12345678901234567891', true],
+      ['n % 10 = 1', '12345678901234567891.5', false],
+      ['n % 10 within 1..2', '12345678901234567891.5', true],
+      ['n % 10 within 0..1', '12345678901234567891.5', false],
+      ['n % 0 = 0', 12345678901234567891n, false],
+      ['n % 0 != 0', 12345678901234567891n, true],
+    ];
+    for (const [source, input, expected] of cases) {
+      const rule = parseRule(source);
+      assert.strictEqual(testPluralRule(rule, input), expected, `${input}: ${source}`);
+      assert.strictEqual(compileRule(rule)(input), expected, `${input}: ${source} (compiled)`);
+    }
+  });
+
+  it('categorizes numbers beyond double precision', () => {
+    const ru = parseRuleSet(`
+      one: v = 0 and i % 10 = 1 and i % 100 != 11;
+      few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+      many: v = 0 and i % 10 = 0 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 11..14
+    `);
+    const mk = parseRuleSet(`
+      one: v = 0 and i % 10 = 1 and i % 100 != 11 or f % 10 = 1 and f % 100 != 11
+    `);
+    const cases = [
+      [ru, '12345678901234567891', 'one'],
+      [ru, 12345678901234567891n, 'one'],
+      [ru, -12345678901234567892n, 'few'],
+      [mk, '0.10000000000000000001', 'one'],
+      [mk, '0.10000000000000000011', 'other'],
+    ];
+    for (const [rules, input, category] of cases) {
+      assert.strictEqual(getPluralCategory(rules, input), category, String(input));
+      assert.strictEqual(compileRuleSet(rules)(input), category, `${input} (compiled)`);
+    }
+  });
+
+  it('selects the French many category for compact numbers', () => {
+    const fr = parseRuleSet(`
+      one: i = 0,1 @integer 0, 1 @decimal 0.0~1.5;
+      many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5 @integer 1000000, 1c6, 2c6, 3c6, 4c6, 5c6, 6c6, … @decimal 1.0000001c6, 1.1c6, 2.0000001c6, 2.1c6, 3.0000001c6, 3.1c6, …;
+      other: @integer 2~17, 100, 1000, 10000, 100000, 1c3, 2c3, 3c3, 4c3, 5c3, 6c3, … @decimal 2.0~3.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, 1.0001c3, 2.0001c3, 3.0001c3, 4.0001c3, 5.0001c3, 6.0001c3, …
+    `);
+    const compiled = compileRuleSet(fr);
+    const expected = {
+      '1000000': 'many',
+      '1c6': 'many',
+      '1.1c6': 'many',
+      '1c3': 'other',
+      '1.5c3': 'other',
+      '1.0001c3': 'other',
+      '1000000.0': 'other',
+      '1.5': 'one',
+    };
+    for (const [input, category] of Object.entries(expected)) {
+      assert.strictEqual(getPluralCategory(fr, input), category, input);
+      assert.strictEqual(compiled(input), category, `${input} (compiled)`);
+    }
+  });
+});
@@ -0,0 +1,185 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  getPluralRangeCategory,
+  loadPluralRangesJson,
+  loadPluralRangesXml,
+} = require('../dist');
+
+describe('getPluralRangeCategory()', () => {
+  const ru = parseRuleSet(`
+    one: v = 0 and i % 10 = 1 and i % 100 != 11;
+    few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+    many: v = 0 and i % 10 = 0 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 11..14
+  `);
+  const ruRanges = [
+    { start: 'one', end: 'one', result: 'one' },
+    { start: 'one', end: 'few', result: 'few' },
+    { start: 'one', end: 'many', result: 'many' },
+    { start: 'one', end: 'other', result: 'other' },
+    { start: 'few', end: 'one', result: 'one' },
+    { start: 'few', end: 'few', result: 'few' },
+    { start: 'few', end: 'many', result: 'many' },
+    { start: 'few', end: 'other', result: 'other' },
+    { start: 'many', end: 'one', result: 'one' },
+    { start: 'many', end: 'few', result: 'few' },
+    { start: 'many', end: 'many', result: 'many' },
+    { start: 'many', end: 'other', result: 'other' },
+    { start: 'other', end: 'one', result: 'one' },
+    { start: 'other', end: 'few', result: 'few' },
+    { start: 'other', end: 'many', result: 'many' },
+    { start: 'other', end: 'other', result: 'other' },
+  ];
+
+  it('maps the categories of both ends to the result', () => {
+    const lv = parseRuleSet(`
+      zero: n % 10 = 0 or n % 100 = 11..19 or v = 2 and f % 100 = 11..19;
+      one: n % 10 = 1 and n % 100 != 11 or v = 2 and f % 10 = 1 and f % 100 != 11 or v != 2 and f % 10 = 1
+    `);
+    const lvRanges = [
+      { start: 'zero', end: 'zero', result: 'other' },
+      { start: 'zero', end: 'one', result: 'one' },
+      { start: 'zero', end: 'other', result: 'other' },
+      { start: 'one', end: 'zero', result: 'other' },
+      { start: 'one', end: 'one', result: 'one' },
+      { start: 'one', end: 'other', result: 'other' },
+      { start: 'other', end: 'zero', result: 'other' },
+      { start: 'other', end: 'one', result: 'one' },
+      { start: 'other', end: 'other', result: 'other' },
+    ];
+    // zero + zero = other, even though both ends are zero.
+    assert.strictEqual(getPluralRangeCategory(lv, lvRanges, 10, 20), 'other');
+    assert.strictEqual(getPluralRangeCategory(lv, lvRanges, 0, 1), 'one');
+    assert.strictEqual(getPluralRangeCategory(lv, lvRanges, 1, 10), 'other');
+  });
+
+  it('matches Intl.PluralRules.prototype.selectRange', function() {
+    if (!Intl.PluralRules.prototype.selectRange) {
+      this.skip();
+    }
+    const intl = new Intl.PluralRules('ru');
+    const pairs = [[1, 2], [1, 5], [2, 21], [5, 22], [0, 1], [1, '2.5'], ['1.5', 3]];
+    for (const [start, end] of pairs) {
+      assert.strictEqual(
+        getPluralRangeCategory(ru, ruRanges, start, end),
+        intl.selectRange(Number(start), Number(end)),
+        `${start}–${end}`
+      );
+    }
+  });
+
+  it('uses the end category when there is no matching entry', () => {
+    assert.strictEqual(getPluralRangeCategory(ru, [], 1, 3), 'few');
+    assert.strictEqual(getPluralRangeCategory(ru, [], 3, 1), 'one');
+  });
+});
+
+describe('loadPluralRangesJson()', () => {
+  it('loads plural ranges', () => {
+    const ranges = loadPluralRangesJson({
+      supplemental: {
+        version: { _cldrVersion: '43' },
+        plurals: {
+          en: {
+            'pluralRange-start-one-end-other': 'other',
+            'pluralRange-start-other-end-one': 'one',
+          },
+          ja: {
+            'pluralRange-start-other-end-other': 'other',
+          },
+        },
+      },
+    });
+    assert.deepStrictEqual(ranges, new Map([
+      ['en', [
+        { start: 'one', end: 'other', result: 'other' },
+        { start: 'other', end: 'one', result: 'one' },
+      ]],
+      ['ja', [
+        { start: 'other', end: 'other', result: 'other' },
+      ]],
+    ]));
+  });
+
+  it('accepts JSON strings and data without the supplemental wrapper', () => {
+    const ranges = loadPluralRangesJson(JSON.stringify({
+      plurals: { en: { 'pluralRange-start-one-end-other': 'other' } },
+    }));
+    assert.deepStrictEqual(
+      ranges.get('en'),
+      [{ start: 'one', end: 'other', result: 'other' }]
+    );
+  });
+
+  it('rejects data in the wrong format', () => {
+    assert.throws(
+      () => loadPluralRangesJson({}),
+      new TypeError(`Expected 'plurals' to be an object`)
+    );
+    assert.throws(
+      () => loadPluralRangesJson({ plurals: { en: [] } }),
+      new TypeError(`Expected the ranges for locale 'en' to be an object`)
+    );
+    assert.throws(
+      () => loadPluralRangesJson({
+        plurals: { en: { 'pluralRange-start-one-end-one': null } },
+      }),
+      new TypeError(
+        `Expected 'pluralRange-start-one-end-one' in locale 'en' to be a string`
+      )
+    );
+  });
+});
+
+describe('loadPluralRangesXml()', () => {
+  it('loads plural ranges for every locale', () => {
+    const ranges = loadPluralRangesXml(`<?xml version="1.0" encoding="UTF-8" ?>
+<!DOCTYPE supplementalData SYSTEM "../../common/dtd/ldmlSupplemental.dtd">
+<supplementalData>
+    <version number="$Revision$"/>
+    <plurals>
+        <!-- 3 items -->
+        <pluralRanges locales="af en">
+            <pluralRange start="one"     end="other"   result="other"/>
+            <pluralRange start="other"   end="one"     result="one"/>
+        </pluralRanges>
+        <pluralRanges locales="ja">
+            <pluralRange start="other"   end="other"   result="other"/>
+        </pluralRanges>
+    </plurals>
+</supplementalData>`);
+    const enRanges = [
+      { start: 'one', end: 'other', result: 'other' },
+      { start: 'other', end: 'one', result: 'one' },
+    ];
+    assert.deepStrictEqual(ranges, new Map([
+      ['af', enRanges],
+      ['en', enRanges],
+      ['ja', [{ start: 'other', end: 'other', result: 'other' }]],
+    ]));
+    assert.notStrictEqual(ranges.get('af'), ranges.get('en'));
+  });
+
+  it('rejects data in the wrong format', () => {
+    assert.throws(
+      () => loadPluralRangesXml('<plurals><pluralRanges/></plurals>'),
+      new TypeError(`Expected a 'locales' attribute on <pluralRanges>`)
+    );
+    assert.throws(
+      () => loadPluralRangesXml(
+        '<pluralRanges locales="en"><pluralRange start="one" end="one"/></pluralRanges>'
+      ),
+      new TypeError(`Expected a 'result' attribute on <pluralRange>`)
+    );
+    assert.throws(
+      () => loadPluralRangesXml(
+        '<plurals><pluralRanges locales="en"/><pluralRanges locales="en"/></plurals>'
+      ),
+      new TypeError(`Locale 'en' occurs more than once`)
+    );
+    assert.throws(
+      () => loadPluralRangesXml('<plurals>'),
+      new SyntaxError('Unclosed element: <plurals>')
+    );
+  });
+});
@@ -0,0 +1,142 @@
+const assert = require('assert');
+const { parseRuleSet, PluralRules } = require('../dist');
+
+describe('PluralRules', () => {
+  const en = parseRuleSet(`
+    one: i = 1 and v = 0 @integer 1;
+    other: @integer 0, 2~16, 100, 1000, 10000, 100000, 1000000, … @decimal 0.0~1.5, 10.0, 100.0, 1000.0, 10000.0, 100000.0, 1000000.0, …
+  `);
+  const enOrdinal = parseRuleSet(`
+    one: n % 10 = 1 and n % 100 != 11;
+    two: n % 10 = 2 and n % 100 != 12;
+    few: n % 10 = 3 and n % 100 != 13
+  `);
+  const ru = parseRuleSet(`
+    one: v = 0 and i % 10 = 1 and i % 100 != 11;
+    few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+    many: v = 0 and i % 10 = 0 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 11..14
+  `);
+  const ruRanges = [
+    { start: 'one', end: 'few', result: 'few' },
+    { start: 'few', end: 'one', result: 'one' },
+    { start: 'few', end: 'many', result: 'many' },
+    { start: 'one', end: 'other', result: 'other' },
+  ];
+  const und = parseRuleSet('');
+  const data = {
+    cardinal: new Map([['en', en], ['ru', ru], ['und', und]]),
+    ordinal: new Map([['en', enOrdinal]]),
+    ranges: new Map([['ru', ruRanges]]),
+  };
+
+  it('selects categories from a rule set', () => {
+    const pr = new PluralRules(ru, 'ru');
+    assert.strictEqual(pr.select(1), 'one');
+    assert.strictEqual(pr.select(3), 'few');
+    assert.strictEqual(pr.select(11), 'many');
+    assert.strictEqual(pr.select(1.5), 'other');
+    assert.strictEqual(pr.select('21'), 'one');
+    assert.strictEqual(pr.select(12345678901234567891n), 'one');
+  });
+
+  it('looks up rules by locale and type', () => {
+    assert.strictEqual(new PluralRules(data, 'en').select(1), 'one');
+    assert.strictEqual(new PluralRules(data, 'en-GB').select(2), 'other');
+    assert.strictEqual(new PluralRules(data, 'EN-u-nu-arab').select(1), 'one');
+    assert.strictEqual(new PluralRules(data, ['xx', 'ru-RU']).select(2), 'few');
+
+    // The environment's default locale comes before und, so it must not be in
+    // the data.
+    const ruOnly = { cardinal: new Map([['ru', ru], ['und', und]]) };
+    assert.strictEqual(new PluralRules(ruOnly, 'xx').resolvedOptions().locale, 'und');
+
+    const ordinal = new PluralRules(data, 'en', { type: 'ordinal' });
+    assert.strictEqual(ordinal.select(22), 'two');
+    assert.strictEqual(ordinal.select(13), 'other');
+  });
+
+  it('throws if there are no rules for the locale', () => {
+    const ruOnly = { cardinal: new Map([['ru', ru]]) };
+    assert.throws(() => new PluralRules(ruOnly, 'xx'), RangeError);
+    assert.throws(() => new PluralRules(ruOnly, 'ru', { type: 'ordinal' }), RangeError);
+    assert.throws(() => new PluralRules({}, 'en'), RangeError);
+    assert.throws(() => new PluralRules(data, 'not a locale'), RangeError);
+    assert.throws(() => new PluralRules(data, 'en', { type: 'nominal' }), RangeError);
+  });
+
+  it('honors the digit options', () => {
+    assert.strictEqual(new PluralRules(en, 'en').select(1), 'one');
+    assert.strictEqual(new PluralRules(en, 'en', { minimumFractionDigits: 1 }).select(1), 'other');
+    assert.strictEqual(new PluralRules(en, 'en', { maximumFractionDigits: 0 }).select(1.4), 'one');
+    assert.strictEqual(new PluralRules(en, 'en').select(1.0001), 'one');
+    assert.strictEqual(new PluralRules(en, 'en', { maximumFractionDigits: 4 }).select(1.0001), 'other');
+    assert.strictEqual(new PluralRules(en, 'en', { maximumSignificantDigits: 1 }).select(1.2), 'one');
+    assert.strictEqual(new PluralRules(en, 'en', { minimumSignificantDigits: 2 }).select(1), 'other');
+    assert.strictEqual(new PluralRules(en, 'en', { minimumIntegerDigits: 3 }).select(1), 'one');
+    assert.throws(
+      () => new PluralRules(en, 'en', { minimumFractionDigits: 3, maximumFractionDigits: 1 }),
+      RangeError
+    );
+  });
+
+  it('selects the category of a range', () => {
+    const pr = new PluralRules(data, 'ru');
+    assert.strictEqual(pr.selectRange(1, 2), 'few');
+    assert.strictEqual(pr.selectRange(2, 5), 'many');
+    assert.strictEqual(pr.selectRange(2, 21), 'one');
+    assert.strictEqual(pr.selectRange(5, 6), 'many');
+    assert.strictEqual(new PluralRules(ru, 'ru').selectRange(1, 2), 'few');
+    assert.strictEqual(new PluralRules(ru, 'ru').selectRange(2, 21), 'one');
+  });
+
+  it('resolves options like Intl.PluralRules', () => {
+    assert.deepStrictEqual(new PluralRules(data, 'en-US').resolvedOptions(), {
+      locale: 'en',
+      type: 'cardinal',
+      minimumIntegerDigits: 1,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 3,
+      pluralCategories: ['one', 'other'],
+    });
+    assert.deepStrictEqual(
+      new PluralRules(data, 'en', { type: 'ordinal', maximumSignificantDigits: 3 })
+        .resolvedOptions(),
+      {
+        locale: 'en',
+        type: 'ordinal',
+        minimumIntegerDigits: 1,
+        minimumSignificantDigits: 1,
+        maximumSignificantDigits: 3,
+        pluralCategories: ['one', 'two', 'few', 'other'],
+      }
+    );
+    assert.strictEqual(new PluralRules(ru, 'ru-RU').resolvedOptions().locale, 'ru-RU');
+  });
+
+  it('lists plural categories in canonical order', () => {
+    const rules = parseRuleSet(`
+      many: n = 6; custom: n = 7; few: n = 3; zero: n = 0; two: n = 2; one: n = 1
+    `);
+    assert.deepStrictEqual(
+      new PluralRules(rules).resolvedOptions().pluralCategories,
+      ['zero', 'one', 'two', 'few', 'many', 'custom', 'other']
+    );
+  });
+
+  it('matches Intl.PluralRules', () => {
+    const options = [
+      {},
+      { minimumFractionDigits: 1 },
+      { maximumFractionDigits: 1 },
+      { minimumSignificantDigits: 3 },
+    ];
+    const values = [0, 1, 1.5, 2, 5, 11, 21, 22, 101, 1.04, 1.96, 0.999];
+    for (const opts of options) {
+      const ours = new PluralRules(data, 'ru', opts);
+      const intl = new Intl.PluralRules('ru', opts);
+      for (const n of values) {
+        assert.strictEqual(ours.select(n), intl.select(n), `${n} ${JSON.stringify(opts)}`);
+      }
+    }
+  });
+});
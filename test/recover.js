@@ -0,0 +1,107 @@
+const assert = require('assert');
+const { ParseError, parseRuleSet } = require('../dist');
+
+describe('parseRuleSet() with recover', () => {
+  const recovers = (source, categories, errors) => {
+    const { ruleSet, diagnostics } = parseRuleSet(source, { recover: true });
+    assert.deepStrictEqual(Array.from(ruleSet.rules.keys()), categories);
+    for (const error of diagnostics) {
+      assert.ok(error instanceof ParseError);
+    }
+    assert.deepStrictEqual(
+      diagnostics.map(e => [e.offset, e.message]),
+      errors
+    );
+  };
+
+  it('returns the same rule set as normal parsing for valid input', () => {
+    const source = 'one: n = 1 @integer 1; two: n = 2; other: @integer 0, 3~5';
+    const { ruleSet, diagnostics } = parseRuleSet(source, { recover: true });
+    assert.deepStrictEqual(ruleSet, parseRuleSet(source));
+    assert.deepStrictEqual(diagnostics, []);
+  });
+
+  it('supports the locations option', () => {
+    const source = 'one: n = x; two: n = 2';
+    const { ruleSet } = parseRuleSet(source, { recover: true, locations: true });
+    const { span } = ruleSet.rules.get('two');
+    assert.strictEqual(source.slice(span.start.offset, span.end.offset), 'n = 2');
+  });
+
+  it('resynchronizes at semicolons', () => {
+    recovers('one: n = ; two: n = 2; few: n = x; many: n = 4', ['two', 'many'], [
+      [9, `Expected value or range; got ';'`],
+      [32, `Expected value or range; got plural category 'x'`],
+    ]);
+    recovers('one n = 1; two: n = 2', ['two'], [
+      [4, `Expected ':' after plural category; got 'n'`],
+    ]);
+    recovers('1: n = 1;; two: n = 2;', ['two'], [
+      [0, `Expected a plural category; got value '1'`],
+      [9, `Expected a plural category; got ';'`],
+      [22, `Expected a plural category; got end-of-file`],
+    ]);
+  });
+
+  it('resynchronizes after bad relations', () => {
+    recovers('one: n = x and v = 0 or i = 1..y and w = 0 @integer 1; two: n = 2', ['two'], [
+      [9, `Expected value or range; got plural category 'x'`],
+      [31, `Expected value after '..'; got plural category 'y'`],
+    ]);
+    recovers('one: n is and v = 0 or x = 1; two: n = 2', ['two'], [
+      [10, `Expected value or 'not' after 'is'; got 'and'`],
+      [23, `Expected an operand (n, i, f, t, v, w, c, e); got plural category 'x'`],
+    ]);
+  });
+
+  it('reports errors in samples', () => {
+    recovers('one: n = 1 @integer 1~; two: n = 2 @decimal ...', [], [
+      [22, `Expected sample value after '~'; got ';'`],
+      [44, `Expected at least one sample value or range before '...'`],
+    ]);
+  });
+
+  it('reports text after a rule', () => {
+    recovers('one: n = 1 two: n = 2; few: n = 3', ['few'], [
+      [11, `Expected end-of-file; got plural category 'two'`],
+    ]);
+  });
+
+  it('reports and skips invalid tokens', () => {
+    recovers('one: n = 1 #; two: n = 2 @foo; few: n = 3', ['few'], [
+      [11, `Invalid character: #`],
+      [25, `Unknown keyword token: @foo`],
+    ]);
+  });
+
+  it('reports duplicate categories', () => {
+    recovers('one: n = 1; one: n = 2; one: n = x', ['one'], [
+      [12, `Category 'one' occurs more than once`],
+      [24, `Category 'one' occurs more than once`],
+      [33, `Expected value or range; got plural category 'x'`],
+    ]);
+    // A rule that was left out due to errors still counts.
+    recovers('one: n = x; one: n = 1', [], [
+      [9, `Expected value or range; got plural category 'x'`],
+      [12, `Category 'one' occurs more than once`],
+    ]);
+  });
+
+  it('leaves out other samples with errors', () => {
+    const source = 'one: n = 1; other: @integer 0, x';
+    const { ruleSet, diagnostics } = parseRuleSet(source, { recover: true });
+    assert.strictEqual(ruleSet.other, null);
+    assert.strictEqual(diagnostics.length, 1);
+  });
+
+  it('does not change the errors thrown without recover', () => {
+    assert.throws(
+      () => parseRuleSet('one: n = ; two: n = x'),
+      new ParseError(`Expected value or range; got ';'`)
+    );
+    assert.throws(
+      () => parseRuleSet('one: n = 1 #'),
+      new ParseError(`Invalid character: #`)
+    );
+  });
+});
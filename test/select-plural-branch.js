@@ -0,0 +1,88 @@
+const assert = require('assert');
+const { parseRuleSet, selectPluralBranch } = require('../dist');
+
+describe('selectPluralBranch()', () => {
+  const en = parseRuleSet('one: i = 1 and v = 0');
+  const enOrdinal = parseRuleSet(`
+    one: n % 10 = 1 and n % 100 != 11;
+    two: n % 10 = 2 and n % 100 != 12;
+    few: n % 10 = 3 and n % 100 != 13
+  `);
+  const ru = parseRuleSet(`
+    one: v = 0 and i % 10 = 1 and i % 100 != 11;
+    few: v = 0 and i % 10 = 2..4 and i % 100 != 12..14;
+    many: v = 0 and i % 10 = 0 or v = 0 and i % 10 = 5..9 or v = 0 and i % 100 = 11..14
+  `);
+
+  it('selects branches by plural category', () => {
+    const selectors = ['one', 'few', 'many', 'other'];
+    assert.strictEqual(selectPluralBranch(ru, 1, selectors), 'one');
+    assert.strictEqual(selectPluralBranch(ru, 3, selectors), 'few');
+    assert.strictEqual(selectPluralBranch(ru, 11, selectors), 'many');
+    assert.strictEqual(selectPluralBranch(ru, 1.5, selectors), 'other');
+    assert.strictEqual(selectPluralBranch(ru, 21n, selectors), 'one');
+    assert.strictEqual(selectPluralBranch(enOrdinal, 22, ['one', 'two', 'few', 'other']), 'two');
+  });
+
+  it('falls back to other', () => {
+    assert.strictEqual(selectPluralBranch(ru, 3, ['one', 'other']), 'other');
+    assert.strictEqual(selectPluralBranch(ru, 3, ['other', 'few']), 'few');
+  });
+
+  it('prefers exact matches on the raw value', () => {
+    const selectors = ['one', '=1', '=0', 'other'];
+    assert.strictEqual(selectPluralBranch(en, 1, selectors), '=1');
+    assert.strictEqual(selectPluralBranch(en, 0, selectors), '=0');
+    assert.strictEqual(selectPluralBranch(en, '1.00', selectors), '=1');
+    assert.strictEqual(selectPluralBranch(en, 1.5, ['=1.50', 'other']), '=1.50');
+    assert.strictEqual(selectPluralBranch(en, -1, ['=-1', 'one', 'other']), '=-1');
+    assert.strictEqual(selectPluralBranch(en, '1c3', ['=1000', 'other']), '=1000');
+    assert.strictEqual(
+      selectPluralBranch(en, '12345678901234567891', ['=12345678901234567890', 'other']),
+      'other'
+    );
+    assert.strictEqual(selectPluralBranch(en, -0, ['=0', 'other']), '=0');
+  });
+
+  it('applies the offset to keywords only', () => {
+    const selectors = ['=0', '=1', 'one', 'other'];
+    const options = { offset: 1 };
+    assert.strictEqual(selectPluralBranch(en, 0, selectors, options), '=0');
+    assert.strictEqual(selectPluralBranch(en, 1, selectors, options), '=1');
+    assert.strictEqual(selectPluralBranch(en, 2, selectors, options), 'one');
+    assert.strictEqual(selectPluralBranch(en, 3, selectors, options), 'other');
+    assert.strictEqual(selectPluralBranch(ru, 22, ['one', 'other'], options), 'one');
+  });
+
+  it('keeps fraction digits when applying the offset', () => {
+    const options = { offset: 1 };
+    assert.strictEqual(selectPluralBranch(en, 2, ['one', 'other'], options), 'one');
+    assert.strictEqual(selectPluralBranch(en, '2.0', ['one', 'other'], options), 'other');
+    assert.strictEqual(selectPluralBranch(ru, '2.10', ['one', 'other'], options), 'other');
+    assert.strictEqual(selectPluralBranch(ru, 1.1, ['one', 'other'], { offset: 0.1 }), 'other');
+    assert.strictEqual(selectPluralBranch(parseRuleSet('one: n = 1'), 1.1, ['one', 'other'], { offset: 0.1 }), 'one');
+    assert.strictEqual(selectPluralBranch(ru, 0, ['one', 'other'], { offset: -1 }), 'one');
+    assert.strictEqual(selectPluralBranch(ru, 0, ['one', 'other'], { offset: 1 }), 'one');
+  });
+
+  it('formats the offset value', () => {
+    const options = { offset: 1, format: { minimumFractionDigits: 1 } };
+    assert.strictEqual(selectPluralBranch(en, 2, ['=2', 'other'], options), '=2');
+    assert.strictEqual(selectPluralBranch(en, 2, ['one', 'other'], options), 'other');
+    assert.strictEqual(selectPluralBranch(en, 2, ['one', 'other'], { offset: 1 }), 'one');
+  });
+
+  it('throws on invalid branch lists and values', () => {
+    assert.throws(() => selectPluralBranch(en, 1, ['one']), /must include 'other'/);
+    assert.throws(() => selectPluralBranch(en, 1, ['=one', 'other']), /Invalid plural selector: =one/);
+    // Even when an exact selector matches first.
+    assert.throws(() => selectPluralBranch(en, 1, ['=1', 'one']), /must include 'other'/);
+    assert.throws(() => selectPluralBranch(en, 1, ['=1', '=one', 'other']), /Invalid plural selector: =one/);
+    assert.throws(() => selectPluralBranch(en, 1, ['', 'other']), RangeError);
+    assert.throws(() => selectPluralBranch(en, NaN, ['other']), /not finite/);
+    assert.throws(
+      () => selectPluralBranch(en, '1c3', ['other'], { offset: 1 }),
+      /Cannot apply an offset to a number with an exponent: 1c3/
+    );
+  });
+});
@@ -0,0 +1,153 @@
+const assert = require('assert');
+const { ParseError, parseRuleSet, parseRule } = require('../dist');
+
+describe('strict parse options', () => {
+  const rejects = (parse, offset, message) => {
+    assert.throws(parse, error =>
+      error instanceof ParseError &&
+      error.offset === offset &&
+      error.message === message
+    );
+  };
+
+  it('accepts everything by default', () => {
+    parseRuleSet('foo: n is 1 @integer 1; one: e within 1..2; few: n mod 10 not in 3');
+    parseRule('n mod 10 is not 1');
+  });
+
+  it('restricts categories to the standard ones', () => {
+    const options = { standardCategories: true };
+    parseRuleSet('zero: n = 0; one: n = 1; two: n = 2; few: n = 3; many: n = 4; other:', options);
+    rejects(
+      () => parseRuleSet('one: n = 1; foo: n = 2', options),
+      12,
+      `Non-standard plural category 'foo'`
+    );
+    rejects(
+      () => parseRuleSet('in: n = 1', options),
+      0,
+      `Non-standard plural category 'in'`
+    );
+  });
+
+  it('requires canonical order', () => {
+    const options = { canonicalOrder: true };
+    parseRuleSet('zero: n = 0; one: n = 1; two: n = 2; few: n = 3; many: n = 4; other:', options);
+    parseRuleSet('one: n = 1; foo: n = 2; bar: n = 3; other:', options);
+    rejects(
+      () => parseRuleSet('few: n = 3; one: n = 1', options),
+      12,
+      `Category 'one' must come before 'few'`
+    );
+    rejects(
+      () => parseRuleSet('foo: n = 2; many: n = 3', options),
+      12,
+      `Category 'many' must come before 'foo'`
+    );
+    rejects(
+      () => parseRuleSet('other: @integer 0; one: n = 1', options),
+      19,
+      `Category 'one' must come before 'other'`
+    );
+  });
+
+  it('requires other', () => {
+    const options = { requireOther: true };
+    parseRuleSet('one: n = 1; other:', options);
+    parseRuleSet('other: @integer 0~5', options);
+    rejects(() => parseRuleSet('one: n = 1', options), 10, `Missing category 'other'`);
+    rejects(() => parseRuleSet('', options), 0, `Missing category 'other'`);
+  });
+
+  it('rejects legacy syntax', () => {
+    const options = { modernSyntax: true };
+    parseRuleSet('one: n % 10 = 1 and n % 100 != 11 and c = 0', options);
+    parseRule('i = 0..1 and v = 0', options);
+    rejects(
+      () => parseRule('n is 1', options),
+      2,
+      `Legacy syntax 'is' is not allowed; use '=' or '!=' instead`
+    );
+    rejects(
+      () => parseRule('n in 1..3', options),
+      2,
+      `Legacy syntax 'in' is not allowed; use '=' or '!=' instead`
+    );
+    rejects(
+      () => parseRule('n not in 1..3', options),
+      2,
+      `Legacy syntax 'not' is not allowed; use '=' or '!=' instead`
+    );
+    rejects(
+      () => parseRule('n within 1..3', options),
+      2,
+      `Legacy syntax 'within' is not allowed; use '=' or '!=' instead`
+    );
+    rejects(
+      () => parseRule('n mod 10 = 1', options),
+      2,
+      `Legacy syntax 'mod' is not allowed; use '%' instead`
+    );
+    rejects(
+      () => parseRule('v = 0 and e = 0', options),
+      10,
+      `Legacy syntax operand 'e' is not allowed; use 'c' instead`
+    );
+  });
+
+  it('requires samples', () => {
+    const options = { samples: 'required' };
+    parseRuleSet('one: n = 1 @integer 1; other: @decimal 0.0~1.5', options);
+    parseRule('n = 1 @decimal 1.0', options);
+    rejects(
+      () => parseRuleSet('one: n = 1; other: @integer 0', options),
+      10,
+      `Expected samples ('@integer' or '@decimal'); got ';'`
+    );
+    rejects(
+      () => parseRuleSet('one: n = 1 @integer 1; other:', options),
+      29,
+      `Expected samples ('@integer' or '@decimal'); got end-of-file`
+    );
+    rejects(
+      () => parseRule('n = 1', options),
+      5,
+      `Expected samples ('@integer' or '@decimal'); got end-of-file`
+    );
+  });
+
+  it('forbids samples', () => {
+    const options = { samples: 'forbidden' };
+    parseRuleSet('one: n = 1; other:', options);
+    rejects(
+      () => parseRuleSet('one: n = 1 @integer 1', options),
+      11,
+      `Samples are not allowed`
+    );
+    rejects(
+      () => parseRuleSet('other: @decimal 0.0', options),
+      7,
+      `Samples are not allowed`
+    );
+  });
+
+  it('reports every violation when recovering', () => {
+    const { ruleSet, diagnostics } = parseRuleSet(
+      'few: n is 3; one: n = 1; many: n = 5; foo: n = 4',
+      {
+        recover: true,
+        standardCategories: true,
+        canonicalOrder: true,
+        requireOther: true,
+        modernSyntax: true,
+      }
+    );
+    assert.deepStrictEqual(Array.from(ruleSet.rules.keys()), ['many']);
+    assert.deepStrictEqual(diagnostics.map(e => [e.offset, e.message]), [
+      [7, `Legacy syntax 'is' is not allowed; use '=' or '!=' instead`],
+      [13, `Category 'one' must come before 'few'`],
+      [38, `Non-standard plural category 'foo'`],
+      [48, `Missing category 'other'`],
+    ]);
+  });
+});
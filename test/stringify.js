@@ -0,0 +1,144 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  parseRule,
+  stringifyRuleSet,
+  stringifyRule,
+} = require('../dist');
+
+describe('stringifyRuleSet()', () => {
+  const roundTrips = (source, options) => {
+    const rules = parseRuleSet(source);
+    const text = stringifyRuleSet(rules, options);
+    assert.deepStrictEqual(parseRuleSet(text), rules);
+    return text;
+  };
+
+  it('stringifies an empty rule set', () => {
+    assert.strictEqual(roundTrips(''), '');
+    assert.strictEqual(roundTrips('other:'), '');
+  });
+
+  it('stringifies rules in canonical form', () => {
+    assert.strictEqual(
+      roundTrips(
+        'one: n is 1;' +
+        'few: n mod 10 in 2..4 and n mod 100 not in 12..14;' +
+        'many: i is not 0 and v = 0'
+      ),
+      'one: n = 1; ' +
+      'few: n % 10 = 2..4 and n % 100 != 12..14; ' +
+      'many: i != 0 and v = 0'
+    );
+  });
+
+  it('stringifies rules with samples', () => {
+    assert.strictEqual(
+      roundTrips(
+        'one: i = 1 and v = 0 @integer 1;' +
+        'other: @integer 0, 2~16, 100, 1000, 1c6, ... @decimal 0.0~1.5, 10.0, …'
+      ),
+      'one: i = 1 and v = 0 @integer 1; ' +
+      'other: @integer 0, 2~16, 100, 1000, 1c6, … @decimal 0.0~1.5, 10.0, …'
+    );
+  });
+
+  it('writes other samples last', () => {
+    assert.strictEqual(
+      roundTrips('other: @integer 0; one: n = 1 @integer 1'),
+      'one: n = 1 @integer 1; other: @integer 0'
+    );
+  });
+
+  it('writes the legacy form', () => {
+    assert.strictEqual(
+      roundTrips(
+        'one: n = 1 or n != 2 or n = 3,5 or n != 7..9 or n within 0..2',
+        { canonical: false }
+      ),
+      'one: n is 1 or n is not 2 or n in 3,5 or n not in 7..9 or n within 0..2'
+    );
+  });
+
+  it('writes the specified mod operator and ellipsis', () => {
+    assert.strictEqual(
+      roundTrips('one: n % 10 = 1 @integer 1, 21, …', {
+        mod: 'mod',
+        ellipsis: '...',
+      }),
+      'one: n mod 10 = 1 @integer 1, 21, ...'
+    );
+  });
+
+  it('writes within relations regardless of form', () => {
+    for (const canonical of [true, false]) {
+      assert.strictEqual(
+        roundTrips('one: n not within 1..3', { canonical }),
+        'one: n not within 1..3'
+      );
+    }
+  });
+
+  it('writes pretty output', () => {
+    assert.strictEqual(
+      roundTrips(
+        'one: n = 1 @integer 1 @decimal 1.0; two: n = 2; other: @integer 0',
+        { pretty: true }
+      ),
+      'one: n = 1\n' +
+      '  @integer 1\n' +
+      '  @decimal 1.0;\n' +
+      'two: n = 2;\n' +
+      'other:\n' +
+      '  @integer 0'
+    );
+  });
+
+  it('writes integer values without leading zeros', () => {
+    const rules = parseRuleSet('one: n = 01');
+    assert.strictEqual(stringifyRuleSet(rules), 'one: n = 1');
+  });
+
+  it('writes large integer values exactly', () => {
+    assert.strictEqual(
+      roundTrips('one: n % 1000000000000000000000 = 9007199254740993..1234567890123456789012'),
+      'one: n % 1000000000000000000000 = 9007199254740993..1234567890123456789012'
+    );
+    const rules = parseRuleSet('one: n = 001234567890123456789012');
+    assert.strictEqual(stringifyRuleSet(rules), 'one: n = 1234567890123456789012');
+  });
+
+  it('writes hand-built values that are not integers as they are', () => {
+    const rules = parseRuleSet('one: n = 1; two: n = 2..3');
+    const one = rules.rules.get('one').condition;
+    const two = rules.rules.get('two').condition;
+    one.ranges[0] = { kind: 'Value', value: 1.5, source: '' };
+    two.ranges[0] = {
+      kind: 'Range',
+      start: { kind: 'Value', value: NaN, source: 'NaN' },
+      end: { kind: 'Value', value: 1e21, source: undefined },
+    };
+    assert.strictEqual(
+      stringifyRuleSet(rules),
+      'one: n = 1.5; two: n = NaN..1000000000000000000000'
+    );
+  });
+});
+
+describe('stringifyRule()', () => {
+  it('stringifies a rule', () => {
+    const source = 'n % 10 = 3..4,9 and n % 100 != 10..19 @integer 3, 4, 9, 23, …';
+    const rule = parseRule(source);
+    const text = stringifyRule(rule);
+    assert.strictEqual(text, source);
+    assert.deepStrictEqual(parseRule(text), rule);
+  });
+
+  it('accepts options', () => {
+    const rule = parseRule('n mod 10 = 1 @integer 1, 11');
+    assert.strictEqual(
+      stringifyRule(rule, { canonical: false, mod: 'mod', pretty: true }),
+      'n mod 10 is 1\n  @integer 1, 11'
+    );
+  });
+});
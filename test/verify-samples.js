@@ -0,0 +1,100 @@
+const assert = require('assert');
+const { parseRuleSet, verifySamples } = require('../dist');
+
+describe('verifySamples()', () => {
+  const mismatchesOf = source => {
+    const report = verifySamples(parseRuleSet(source));
+    assert.strictEqual(report.valid, report.mismatches.length === 0);
+    return report.mismatches.map(m => [m.category, m.type, m.value, m.actual]);
+  };
+
+  it('accepts correct samples', () => {
+    const report = verifySamples(parseRuleSet(`
+      one: i = 1 and v = 0 @integer 1;
+      other: @integer 0, 2~16, 100, 1000, … @decimal 0.0~1.5, 10.0, …
+    `));
+    assert.deepStrictEqual(report, { valid: true, checked: 36, mismatches: [], invalidRanges: [] });
+  });
+
+  it('accepts a rule set without samples', () => {
+    assert.deepStrictEqual(
+      verifySamples(parseRuleSet('one: n = 1')),
+      { valid: true, checked: 0, mismatches: [], invalidRanges: [] }
+    );
+  });
+
+  it('reports integer samples in the wrong category', () => {
+    assert.deepStrictEqual(
+      mismatchesOf(`
+        one: n = 1 @integer 1, 11;
+        few: n = 2..4 @integer 2~5;
+        other: @integer 0, 1, 5~7
+      `),
+      [
+        ['one', 'integer', '11', 'other'],
+        ['few', 'integer', '5', 'other'],
+        ['other', 'integer', '1', 'one'],
+      ]
+    );
+  });
+
+  it('reports decimal samples in the wrong category', () => {
+    assert.deepStrictEqual(
+      mismatchesOf(`
+        one: i = 1 and v = 0 @decimal 1.0, 1.00;
+        other: @decimal 0.8~1.1
+      `),
+      [
+        ['one', 'decimal', '1.0', 'other'],
+        ['one', 'decimal', '1.00', 'other'],
+      ]
+    );
+  });
+
+  it('points at the offending sample node', () => {
+    const rules = parseRuleSet('one: n = 1 @integer 1, 2~3');
+    const [first, second] = verifySamples(rules).mismatches;
+    const range = rules.rules.get('one').samples.integer.ranges[1];
+    assert.strictEqual(first.sample, range);
+    assert.strictEqual(second.sample, range);
+  });
+
+  it('verifies samples with exponents', () => {
+    assert.deepStrictEqual(
+      mismatchesOf(`
+        many: e = 0 and i != 0 and i % 1000000 = 0 and v = 0 or e != 0..5 @integer 1000000, 1c6 @decimal 1.1c6;
+        other: @integer 2, 1c3, 1c6
+      `),
+      [['other', 'integer', '1c6', 'many']]
+    );
+  });
+
+  it('reports invalid sample ranges and keeps verifying', () => {
+    const rules = parseRuleSet(`
+      one: n = 1 @integer 1, 2 @decimal 1.0~1.25, 1.5;
+      other: @integer 3~2, 4 @decimal 0.5c3~1.5
+    `);
+    const report = verifySamples(rules);
+    assert.strictEqual(report.valid, false);
+    assert.deepStrictEqual(
+      report.mismatches.map(m => [m.category, m.type, m.value, m.actual]),
+      [
+        ['one', 'integer', '2', 'other'],
+        ['one', 'decimal', '1.5', 'other'],
+      ]
+    );
+    assert.deepStrictEqual(
+      report.invalidRanges.map(r => [r.category, r.type, r.message]),
+      [
+        ['one', 'decimal', 'Sample range bounds must have the same number of fraction digits: 1.0~1.25'],
+        ['other', 'integer', 'Sample range start must not be greater than its end: 3~2'],
+        ['other', 'decimal', 'Sample range bounds must have the same exponent: 0.5c3~1.5'],
+      ]
+    );
+    assert.strictEqual(
+      report.invalidRanges[0].sample,
+      rules.rules.get('one').samples.decimal.ranges[0]
+    );
+    assert.strictEqual(report.checked, 4);
+  });
+});
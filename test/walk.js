@@ -0,0 +1,188 @@
+const assert = require('assert');
+const {
+  parseRuleSet,
+  parseRule,
+  stringifyRuleSet,
+  stringifyRule,
+  walk,
+  transform,
+} = require('../dist');
+
+describe('walk()', () => {
+  const rules = parseRuleSet(
+    'one: n % 10 = 1..2 and v = 0 @integer 1~2; other: @decimal 0.5, …'
+  );
+
+  it('visits every node in source order', () => {
+    const kinds = [];
+    walk(rules, {
+      enter(node) {
+        kinds.push(node.kind);
+      },
+    });
+    assert.deepStrictEqual(kinds, [
+      'PluralRuleSet',
+      'PluralRule',
+      'AndCondition',
+      'Relation',
+      'Expr',
+      'Value',
+      'Range',
+      'Value',
+      'Value',
+      'Relation',
+      'Expr',
+      'Value',
+      'Samples',
+      'SampleList',
+      'SampleRange',
+      'SampleValue',
+      'SampleValue',
+      'Samples',
+      'SampleList',
+      'SampleValue',
+    ]);
+  });
+
+  it('calls hooks in order', () => {
+    const calls = [];
+    walk(parseRule('n = 1'), {
+      enter(node) {
+        calls.push(`enter ${node.kind}`);
+      },
+      leave(node) {
+        calls.push(`leave ${node.kind}`);
+      },
+      Relation: {
+        enter() {
+          calls.push('enter relation');
+        },
+        leave() {
+          calls.push('leave relation');
+        },
+      },
+    });
+    assert.deepStrictEqual(calls, [
+      'enter PluralRule',
+      'enter Relation',
+      'enter relation',
+      'enter Expr',
+      'leave Expr',
+      'enter Value',
+      'leave Value',
+      'leave relation',
+      'leave Relation',
+      'leave PluralRule',
+    ]);
+  });
+
+  it('passes the path to each node', () => {
+    const paths = [];
+    walk(rules, {
+      Value: {
+        enter(node, path) {
+          paths.push(`${path.map(n => n.kind).join(' > ')}: ${node.source}`);
+        },
+      },
+    });
+    assert.deepStrictEqual(paths, [
+      'PluralRuleSet > PluralRule > AndCondition > Relation > Expr: 10',
+      'PluralRuleSet > PluralRule > AndCondition > Relation > Range: 1',
+      'PluralRuleSet > PluralRule > AndCondition > Relation > Range: 2',
+      'PluralRuleSet > PluralRule > AndCondition > Relation: 0',
+    ]);
+  });
+
+  it('skips children if enter returns false', () => {
+    const kinds = [];
+    walk(rules, {
+      enter(node) {
+        kinds.push(node.kind);
+      },
+      PluralRule: { enter: () => false },
+      Samples: { enter: () => false },
+    });
+    assert.deepStrictEqual(kinds, ['PluralRuleSet', 'PluralRule', 'Samples']);
+  });
+});
+
+describe('transform()', () => {
+  it('replaces nodes', () => {
+    const rules = parseRuleSet('one: n is 1 and v = 0; few: n mod 10 = 2..4 @integer 2~4');
+    const result = transform(rules, {
+      Expr: {
+        leave: node => node.operand === 'n' ? { ...node, operand: 'i' } : undefined,
+      },
+      Samples: {
+        enter: () => ({ kind: 'Samples', integer: null, decimal: null }),
+      },
+    });
+    assert.strictEqual(
+      stringifyRuleSet(result),
+      'one: i = 1 and v = 0; few: i % 10 = 2..4'
+    );
+    assert.strictEqual(
+      stringifyRuleSet(rules),
+      'one: n = 1 and v = 0; few: n % 10 = 2..4 @integer 2~4'
+    );
+  });
+
+  it('replaces nodes with nodes of another kind', () => {
+    const rule = parseRule('n = 1..1, 2..3 or v = 0 and w = 0');
+    const result = transform(rule, {
+      Range: {
+        leave: node => node.start.value === node.end.value ? node.start : undefined,
+      },
+      AndCondition: {
+        leave: node => node.relations[0],
+      },
+    });
+    assert.strictEqual(stringifyRule(result), 'n = 1,2..3 or v = 0');
+  });
+
+  it('transforms the children of the node returned by enter', () => {
+    const rule = parseRule('n = 1');
+    const result = transform(rule, {
+      Relation: {
+        enter: node => ({ ...node, negated: true }),
+      },
+      Value: {
+        leave: node => ({ ...node, value: node.value + 1 }),
+      },
+    });
+    assert.strictEqual(stringifyRule(result), 'n != 2');
+  });
+
+  it('passes the path to each node', () => {
+    const paths = [];
+    transform(parseRule('n % 10 = 1'), {
+      Value: {
+        enter(node, path) {
+          paths.push(path.map(n => n.kind).join(' > '));
+        },
+      },
+    });
+    assert.deepStrictEqual(paths, [
+      'PluralRule > Relation > Expr',
+      'PluralRule > Relation',
+    ]);
+  });
+
+  it('reuses nodes that do not change', () => {
+    const rules = parseRuleSet('one: n = 1 and v = 0; few: n = 2..4 @integer 2~4', { locations: true });
+    const result = transform(rules, {
+      Value: {
+        leave: node => node.value === 1 ? { ...node, value: 0 } : undefined,
+      },
+    });
+    const one = result.rules.get('one');
+    const few = result.rules.get('few');
+    assert.notStrictEqual(result, rules);
+    assert.notStrictEqual(one, rules.rules.get('one'));
+    assert.strictEqual(one.condition.relations[1], rules.rules.get('one').condition.relations[1]);
+    assert.strictEqual(few, rules.rules.get('few'));
+    assert.deepStrictEqual(one.span, rules.rules.get('one').span);
+
+    assert.strictEqual(transform(rules, {}), rules);
+  });
+});